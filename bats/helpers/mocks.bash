@@ -15,6 +15,9 @@ MOCK_LOG_FILE="${MOCK_LOG_FILE:-/tmp/plugin-tests-mock.log}"
 # File to store mock return values
 MOCK_RETURNS_FILE="${MOCK_RETURNS_FILE:-/tmp/plugin-tests-returns}"
 
+# Optional file collecting every mock call of a run (set by the VS Code extension)
+PLUGIN_TESTS_MOCK_CALLS_FILE="${PLUGIN_TESTS_MOCK_CALLS_FILE:-}"
+
 # Docker mock state
 MOCK_DOCKER_RUNNING=true
 MOCK_DOCKER_COMPOSE_EXIT=0
@@ -72,12 +75,44 @@ mock_get_return() {
     fi
 }
 
+# ============================================================
+# Call Recording
+# ============================================================
+
+# Record a mock call for the VS Code extension's mock call inspector
+# Usage: _mock_record "command" status [args...]
+# One tab-separated line per call: time, suite test number, test file,
+# test name, calling file and line, command, exit status, arguments.
+# Tabs, newlines and backslashes in fields are escaped.
+_mock_record() {
+    [[ -n "$PLUGIN_TESTS_MOCK_CALLS_FILE" ]] || return 0
+
+    local record="" separator="" field
+    # BASH_SOURCE[2]/BASH_LINENO[1]: whoever called the mock that called us
+    for field in "${EPOCHREALTIME:-}" "${BATS_SUITE_TEST_NUMBER:-}" "${BATS_TEST_FILENAME:-}" \
+        "${BATS_TEST_DESCRIPTION:-}" "${BASH_SOURCE[2]:-}" "${BASH_LINENO[1]:-}" "$@"; do
+        field="${field//\\/\\\\}"
+        field="${field//$'\t'/\\t}"
+        field="${field//$'\n'/\\n}"
+        record+="${separator}${field}"
+        separator=$'\t'
+    done
+    printf '%s\n' "$record" >> "$PLUGIN_TESTS_MOCK_CALLS_FILE"
+}
+
 # ============================================================
 # Mock Commands
 # ============================================================
 
 # Mock docker command
 docker() {
+    local status=0
+    _mock_docker "$@" || status=$?
+    _mock_record docker "$status" "$@"
+    return "$status"
+}
+
+_mock_docker() {
     case "$1" in
         compose)
             shift
@@ -148,6 +183,7 @@ _mock_docker_compose() {
 
 # Mock logger command
 logger() {
+    local args=("$@")
     local tag=""
     local priority=""
     local message=""
@@ -170,23 +206,30 @@ logger() {
     done
     
     echo "[LOG] tag=$tag priority=$priority message=$message" >> "$MOCK_LOG_FILE"
+    _mock_record logger 0 "${args[@]}"
 }
 
 # Mock notify command (Unraid notification)
 notify() {
     echo "[NOTIFY] $*" >> "$MOCK_LOG_FILE"
+    _mock_record notify 0 "$@"
 }
 
 # Mock sleep (optionally skip for faster tests)
 if [[ "${MOCK_SKIP_SLEEP:-false}" == "true" ]]; then
     sleep() {
         echo "[SLEEP] $1" >> "$MOCK_LOG_FILE"
+        _mock_record sleep 0 "$@"
     }
 fi
 
 # Export mock functions
 export -f docker
+export -f _mock_docker
+export -f _mock_docker_compose
+export -f _mock_record
 export -f logger
 export -f notify
 export MOCK_LOG_FILE
 export MOCK_RETURNS_FILE
+export PLUGIN_TESTS_MOCK_CALLS_FILE
@@ -31,6 +31,9 @@ setup() {
     # Reset all mocks
     reset_all_mocks
     
+    # Let mocks called from scripts under test tell which test they belong to
+    export BATS_SUITE_TEST_NUMBER BATS_TEST_FILENAME BATS_TEST_DESCRIPTION
+    
     # Call user's setup if defined
     if declare -f test_setup > /dev/null; then
         test_setup
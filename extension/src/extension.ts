@@ -6,9 +6,20 @@
  */
 
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { BatsTestProvider } from './providers/batsProvider';
 import { PhpUnitTestProvider } from './providers/phpunitProvider';
+import { SourceTestsCodeLensProvider } from './providers/sourceTestsCodeLens';
 import { Logger } from './utils/logger';
+import { formatSlowTestsReport, getSlowTestSettings } from './utils/slowTests';
+
+type TestProvider = BatsTestProvider | PhpUnitTestProvider;
+
+/** A test item with the provider it belongs to */
+interface ProviderItem {
+    provider: TestProvider;
+    item: vscode.TestItem;
+}
 
 let batsProvider: BatsTestProvider | undefined;
 let phpunitProvider: PhpUnitTestProvider | undefined;
@@ -17,44 +28,259 @@ export function activate(context: vscode.ExtensionContext): void {
     const logger = new Logger('Plugin Tests');
     logger.info('Activating Plugin Tests extension');
 
-    const config = vscode.workspace.getConfiguration('pluginTests');
+    const codeLensProvider = new SourceTestsCodeLensProvider();
+    updateProviders(context, logger, codeLensProvider);
+
+    // Run the tests of the open file, or the tests that exercise it
+    context.subscriptions.push(
+        codeLensProvider,
+        vscode.languages.registerCodeLensProvider(
+            [{ scheme: 'file', language: 'php' }, { scheme: 'file', language: 'shellscript' }],
+            codeLensProvider
+        ),
+        vscode.commands.registerCommand('pluginTests.runTestsForCurrentFile', async (uri?: vscode.Uri) => {
+            const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+            if (!target || target.scheme !== 'file') {
+                vscode.window.showInformationMessage('Open a file to run its tests.');
+                return;
+            }
+            const started = await Promise.all(getProviders().map(provider => provider.runTestsForFile(target)));
+            if (!started.includes(true)) {
+                vscode.window.showInformationMessage(`No tests found for ${path.basename(target.fsPath)}.`);
+            }
+        })
+    );
+
+    // Pass/fail history and durations of each test, and re-running the ones it shows to be flaky
+    context.subscriptions.push(
+        vscode.commands.registerCommand('pluginTests.showTestHistory', async (item?: vscode.TestItem) => {
+            const target = item ? findOwner(item) : await pickTestWithHistory();
+            if (!target) {
+                return;
+            }
+            const document = await vscode.workspace.openTextDocument({
+                language: 'markdown',
+                content: target.provider.history.formatReport(target.item)
+            });
+            await vscode.window.showTextDocument(document, { preview: true });
+        }),
+        vscode.commands.registerCommand('pluginTests.rerunFlakyTests', async () => {
+            const flakyCount = getProviders().reduce((count, provider) => count + provider.history.getFlakyTests().length, 0);
+            if (flakyCount === 0) {
+                vscode.window.showInformationMessage('No flaky tests found in the test history.');
+                return;
+            }
+
+            const defaultTimes = vscode.workspace.getConfiguration('pluginTests').get<number>('flaky.reruns', 5);
+            const input = await vscode.window.showInputBox({
+                title: `Re-run ${flakyCount} flaky test${flakyCount === 1 ? '' : 's'}`,
+                prompt: 'How many times?',
+                value: String(defaultTimes),
+                validateInput: value => /^[1-9]\d*$/.test(value.trim()) ? undefined : 'Enter a positive whole number'
+            });
+            if (input === undefined) {
+                return;
+            }
+
+            const times = parseInt(input, 10);
+            await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Re-running flaky tests ${times} times`, cancellable: true },
+                async (_progress, token) => {
+                    for (const provider of getProviders()) {
+                        await provider.runFlakyTests(times, token);
+                    }
+                }
+            );
+        }),
+        vscode.commands.registerCommand('pluginTests.showSlowTests', async () => {
+            const settings = getSlowTestSettings();
+            const tests = getProviders().flatMap(provider => provider.history.getTimedTests(settings));
+            const document = await vscode.workspace.openTextDocument({
+                language: 'markdown',
+                content: formatSlowTestsReport(tests, settings)
+            });
+            await vscode.window.showTextDocument(document, { preview: true });
+        }),
+        vscode.commands.registerCommand('pluginTests.clearTestHistory', async () => {
+            await Promise.all(getProviders().map(provider => provider.history.clear()));
+            vscode.window.showInformationMessage('Test history cleared.');
+        })
+    );
 
-    // Initialize BATS test provider
-    if (config.get<boolean>('bats.enabled', true)) {
+    // Re-run what failed last time, or loop one test until it fails
+    context.subscriptions.push(
+        vscode.commands.registerCommand('pluginTests.runFailedTests', () => {
+            const started = getProviders().map(provider => provider.runFailedTests());
+            if (!started.includes(true)) {
+                vscode.window.showInformationMessage('No failed tests to run.');
+            }
+        }),
+        vscode.commands.registerCommand('pluginTests.runUntilFailure', async (item?: vscode.TestItem) => {
+            const target = item ? findOwner(item) : await pickTestInActiveFile();
+            if (!target) {
+                return;
+            }
+
+            const defaultRuns = vscode.workspace.getConfiguration('pluginTests').get<number>('runUntilFailure.maxRuns', 20);
+            const input = await vscode.window.showInputBox({
+                title: `Run ${target.item.label} until it fails`,
+                prompt: 'Stop after how many runs?',
+                value: String(defaultRuns),
+                validateInput: value => /^[1-9]\d*$/.test(value.trim()) ? undefined : 'Enter a positive whole number'
+            });
+            if (input === undefined) {
+                return;
+            }
+
+            const maxRuns = parseInt(input, 10);
+            const result = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Running ${target.item.label} until it fails`, cancellable: true },
+                (progress, token) => target.provider.runUntilFailure(target.item, maxRuns, token, run => {
+                    progress.report({ message: `run ${run} of ${maxRuns}`, increment: run > 1 ? 100 / maxRuns : 0 });
+                })
+            );
+            if (result.failed) {
+                vscode.window.showWarningMessage(`${target.item.label} failed on run ${result.runs} of ${maxRuns}.`);
+            } else if (result.runs < maxRuns) {
+                vscode.window.showInformationMessage(`Stopped: ${target.item.label} passed ${result.runs} of ${maxRuns} runs.`);
+            } else {
+                vscode.window.showInformationMessage(`${target.item.label} did not fail in ${maxRuns} runs.`);
+            }
+        })
+    );
+
+    // Providers come and go with their `enabled` settings; each one reloads its own
+    // tests when its patterns or the workspace folders change
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('pluginTests.bats.enabled') || e.affectsConfiguration('pluginTests.phpunit.enabled')) {
+                logger.info('Configuration changed, reloading providers');
+                updateProviders(context, logger, codeLensProvider);
+            }
+        }),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => updateProviders(context, logger, codeLensProvider))
+    );
+
+    logger.info('Plugin Tests extension activated');
+}
+
+/**
+ * Create the providers that are enabled (for any workspace folder) and dispose the others
+ */
+function updateProviders(context: vscode.ExtensionContext, logger: Logger, codeLensProvider: SourceTestsCodeLensProvider): void {
+    if (isEnabled('bats.enabled') && !batsProvider) {
         try {
             batsProvider = new BatsTestProvider(context, logger);
-            context.subscriptions.push(batsProvider);
             logger.info('BATS test provider initialized');
         } catch (error) {
             logger.error('Failed to initialize BATS test provider', error);
         }
+    } else if (!isEnabled('bats.enabled') && batsProvider) {
+        batsProvider.dispose();
+        batsProvider = undefined;
+        logger.info('BATS test provider disposed');
     }
 
-    // Initialize PHPUnit test provider
-    if (config.get<boolean>('phpunit.enabled', true)) {
+    if (isEnabled('phpunit.enabled') && !phpunitProvider) {
         try {
             phpunitProvider = new PhpUnitTestProvider(context, logger);
-            context.subscriptions.push(phpunitProvider);
             logger.info('PHPUnit test provider initialized');
         } catch (error) {
             logger.error('Failed to initialize PHPUnit test provider', error);
         }
+    } else if (!isEnabled('phpunit.enabled') && phpunitProvider) {
+        phpunitProvider.dispose();
+        phpunitProvider = undefined;
+        logger.info('PHPUnit test provider disposed');
     }
 
-    // Listen for configuration changes
-    context.subscriptions.push(
-        vscode.workspace.onDidChangeConfiguration(e => {
-            if (e.affectsConfiguration('pluginTests')) {
-                logger.info('Configuration changed, reloading providers');
-                // Reload providers as needed
-            }
-        })
-    );
+    codeLensProvider.setFinders(getProviders());
+}
 
-    logger.info('Plugin Tests extension activated');
+/**
+ * Whether an `enabled` setting is on for the window or any workspace folder
+ */
+function isEnabled(setting: string): boolean {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length === 0) {
+        return vscode.workspace.getConfiguration('pluginTests').get<boolean>(setting, true);
+    }
+    return folders.some(folder => vscode.workspace.getConfiguration('pluginTests', folder.uri).get<boolean>(setting, true));
+}
+
+function getProviders(): TestProvider[] {
+    return [batsProvider, phpunitProvider].filter((provider): provider is TestProvider => provider !== undefined);
+}
+
+function findOwner(item: vscode.TestItem): ProviderItem | undefined {
+    const provider = getProviders().find(candidate => candidate.history.owns(item));
+    return provider ? { provider, item } : undefined;
+}
+
+/**
+ * Let the user choose one of the tests any provider has history for
+ */
+async function pickTestWithHistory(): Promise<ProviderItem | undefined> {
+    const picks = getProviders().flatMap(provider => provider.history.getTestIds()
+        .map(id => provider.history.findItem(id))
+        .filter((item): item is vscode.TestItem => item !== undefined)
+        .map(item => ({
+            label: item.label,
+            description: provider.history.isFlaky(item.id) ? 'flaky' : undefined,
+            detail: item.uri ? vscode.workspace.asRelativePath(item.uri) : undefined,
+            provider,
+            item
+        })));
+    if (picks.length === 0) {
+        vscode.window.showInformationMessage('No test history recorded yet.');
+        return undefined;
+    }
+    return vscode.window.showQuickPick(picks, { title: 'Show Test History', matchOnDetail: true });
+}
+
+/**
+ * Let the user choose a test of the active editor's test file, starting at the one under the cursor
+ */
+async function pickTestInActiveFile(): Promise<ProviderItem | undefined> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.uri.scheme !== 'file') {
+        vscode.window.showInformationMessage('Open a test file, or pick a test in the Test Explorer.');
+        return undefined;
+    }
+
+    const picks: (vscode.QuickPickItem & ProviderItem)[] = [];
+    for (const provider of getProviders()) {
+        for (const item of await provider.getTestsInFile(editor.document.uri)) {
+            picks.push({ label: item.label, description: item.parent?.label, provider, item });
+        }
+    }
+    if (picks.length === 0) {
+        vscode.window.showInformationMessage(`No tests found in ${path.basename(editor.document.uri.fsPath)}.`);
+        return undefined;
+    }
+
+    // Test ranges only mark the line a test starts on: take the closest one above the cursor
+    const line = editor.selection.active.line;
+    const current = picks.reduce<typeof picks[number] | undefined>((closest, pick) => {
+        const start = pick.item.range?.start.line;
+        return start !== undefined && start <= line && start > (closest?.item.range?.start.line ?? -1) ? pick : closest;
+    }, undefined);
+    const quickPick = vscode.window.createQuickPick<typeof picks[number]>();
+    quickPick.title = 'Run Until Failure';
+    quickPick.items = picks;
+    quickPick.activeItems = current ? [current] : [];
+    quickPick.show();
+    const picked = await new Promise<typeof picks[number] | undefined>(resolve => {
+        quickPick.onDidAccept(() => resolve(quickPick.selectedItems[0]));
+        quickPick.onDidHide(() => resolve(undefined));
+    });
+    quickPick.dispose();
+    return picked;
 }
 
 export function deactivate(): void {
     batsProvider?.dispose();
     phpunitProvider?.dispose();
+    batsProvider = undefined;
+    phpunitProvider = undefined;
 }
@@ -0,0 +1,190 @@
+/**
+ * .bats file parser
+ *
+ * Finds test cases the way bats' preprocessor does, plus what the extension
+ * needs around them: file hooks, timeout directives and tags. Heredocs and
+ * comments are skipped, so `@test` inside them doesn't count.
+ */
+
+import { parseTimeoutDirective } from '../utils/timeouts';
+import { parseBatsTagDirective } from '../utils/tags';
+
+export type BatsHook = 'setup_file' | 'teardown_file' | 'setup' | 'teardown' | 'setup_suite' | 'teardown_suite';
+
+export interface BatsTestCase {
+    /** Name as bats reports it (quotes stripped, escapes resolved) */
+    name: string;
+    /** Zero-based line of the `@test` */
+    line: number;
+    /** From a `# plugin-tests: timeout=` comment directly above the test */
+    timeout?: number;
+    /** From a `# bats test_tags=` comment above the test */
+    tags: string[];
+}
+
+export interface BatsFile {
+    tests: BatsTestCase[];
+    /** From a `# plugin-tests: timeout=` comment not attached to a test */
+    timeout?: number;
+    /** From `# bats file_tags=` comments */
+    tags: string[];
+    /** Zero-based lines of the hook functions the file defines */
+    hooks: Partial<Record<BatsHook, number>>;
+}
+
+const HOOK_REGEX = /^\s*(?:function\s+)?(setup_file|teardown_file|setup_suite|teardown_suite|setup|teardown)\s*(?:\(\s*\)|(?=\s*\{))/;
+
+/**
+ * Parse a .bats file (or a helper it loads, for its hooks). A `# plugin-tests: timeout=`
+ * comment directly above a test (only comments in between) applies to that test,
+ * anywhere else to the file. `# bats test_tags=` applies to the next test,
+ * `# bats file_tags=` to all of them.
+ */
+export function parseBatsFile(content: string): BatsFile {
+    const file: BatsFile = { tests: [], tags: [], hooks: {} };
+    const lines = content.split('\n').map(line => line.replace(/\r$/, ''));
+    let fileTimeout: number | undefined;
+    let pendingTimeout: number | undefined;
+    let pendingTags: string[] = [];
+    let heredoc: { delimiter: string; stripTabs: boolean } | undefined;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (heredoc) {
+            const candidate = heredoc.stripTabs ? line.replace(/^\t+/, '') : line;
+            if (candidate === heredoc.delimiter) {
+                heredoc = undefined;
+            }
+            continue;
+        }
+
+        const trimmed = line.trim();
+        if (/^@test\b/.test(trimmed)) {
+            const test = readTestDeclaration(lines, i);
+            if (test) {
+                file.tests.push({ name: test.name, line: i, timeout: pendingTimeout, tags: pendingTags });
+                pendingTimeout = undefined;
+                pendingTags = [];
+                heredoc = findHeredoc(test.rest);
+                i = test.lastLine;
+                continue;
+            }
+        }
+
+        if (trimmed.startsWith('#')) {
+            const tagDirective = parseBatsTagDirective(trimmed);
+            if (tagDirective?.scope === 'test') {
+                pendingTags = tagDirective.tags;
+            } else if (tagDirective?.scope === 'file') {
+                file.tags.push(...tagDirective.tags);
+            }
+
+            const directive = parseTimeoutDirective(trimmed);
+            if (directive !== undefined) {
+                if (pendingTimeout !== undefined) {
+                    fileTimeout = pendingTimeout;
+                }
+                pendingTimeout = directive;
+            }
+            continue;
+        }
+
+        if (pendingTimeout !== undefined) {
+            // Not attached to a test
+            fileTimeout = pendingTimeout;
+            pendingTimeout = undefined;
+        }
+
+        const hook = HOOK_REGEX.exec(line);
+        if (hook && file.hooks[hook[1] as BatsHook] === undefined) {
+            file.hooks[hook[1] as BatsHook] = i;
+        }
+
+        heredoc = findHeredoc(line);
+    }
+
+    file.timeout = fileTimeout ?? pendingTimeout;
+    return file;
+}
+
+/**
+ * Read a `@test` declaration starting at `start`. Backslash-continued lines are
+ * joined, and the opening `{` may follow on a later line of its own.
+ */
+function readTestDeclaration(lines: string[], start: number): { name: string; rest: string; lastLine: number } | undefined {
+    let text = lines[start].trim().replace(/^@test\s*/, '');
+    let last = start;
+    while (text.endsWith('\\') && last + 1 < lines.length) {
+        text = `${text.slice(0, -1)}${lines[++last]}`.trim();
+    }
+
+    // As bats' preprocessor: everything up to the last ` {` is the name
+    const match = /^(.*\S)\s+\{(.*)$/.exec(text);
+    if (match) {
+        return { name: unquoteTestName(match[1]), rest: match[2], lastLine: last };
+    }
+
+    let next = last + 1;
+    while (next < lines.length && lines[next].trim() === '') {
+        next++;
+    }
+    const brace = next < lines.length ? /^\s*\{(.*)$/.exec(lines[next]) : null;
+    if (!brace || !text) {
+        return undefined;
+    }
+    return { name: unquoteTestName(text), rest: brace[1], lastLine: next };
+}
+
+/**
+ * bats strips one quote from either end of the name and then evaluates it inside
+ * double quotes, so backslash escapes of `"`, `\`, `$` and `` ` `` are resolved.
+ * Variables can't be known here and stay as written.
+ */
+function unquoteTestName(raw: string): string {
+    const stripped = raw.replace(/^['"]/, '').replace(/['"]$/, '');
+    return stripped.replace(/\\(["\\$`])/g, '$1');
+}
+
+/**
+ * The heredoc a line opens, if any (`<<EOF`, `<<-'EOF'`, but not `<<<`)
+ */
+function findHeredoc(line: string): { delimiter: string; stripTabs: boolean } | undefined {
+    const match = /(?<!<)<<(-?)\s*(['"]?)([A-Za-z_]\w*)\2/.exec(stripQuotedText(line));
+    return match ? { delimiter: match[3], stripTabs: match[1] === '-' } : undefined;
+}
+
+/**
+ * Blank out quoted text and drop a trailing `# comment`, keeping quote characters
+ * so a quoted heredoc delimiter is still recognized
+ */
+function stripQuotedText(line: string): string {
+    let result = '';
+    let quote: string | undefined;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '\\' && quote !== "'") {
+            result += quote ? '  ' : line.substring(i, i + 2);
+            i++;
+        } else if (quote) {
+            const closing = char === quote;
+            result += closing ? char : ' ';
+            quote = closing ? undefined : quote;
+        } else if (char === '"' || char === "'") {
+            // A quoted heredoc delimiter (`<<'EOF'`) stays readable
+            const delimiter = /^(['"])([A-Za-z_]\w*)\1/.exec(line.substring(i));
+            if (delimiter && /<<-?\s*$/.test(result)) {
+                result += delimiter[0];
+                i += delimiter[0].length - 1;
+            } else {
+                result += char;
+                quote = char;
+            }
+        } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+            break;
+        } else {
+            result += char;
+        }
+    }
+    return result;
+}
@@ -0,0 +1,106 @@
+/**
+ * Coverage report parsers (Clover and Cobertura)
+ *
+ * Both formats are reduced to the same shape: hit counts per executable
+ * line, keyed by absolute file path.
+ */
+
+import * as path from 'path';
+import { parseXml, findElements, childElements } from '../utils/xml';
+
+export type CoverageFormat = 'clover' | 'cobertura';
+
+/** File path -> (1-based line number -> hit count) */
+export type LineCoverage = Map<string, Map<number, number>>;
+
+export function parseCoverageReport(content: string, format: CoverageFormat): LineCoverage {
+    return format === 'cobertura' ? parseCobertura(content) : parseClover(content);
+}
+
+/**
+ * Parse a Clover report (`--coverage-clover`)
+ */
+export function parseClover(content: string): LineCoverage {
+    const coverage: LineCoverage = new Map();
+    const root = parseXml(content);
+    if (!root) {
+        return coverage;
+    }
+
+    for (const file of findElements(root, 'file')) {
+        const fileName = file.attributes['name'];
+        if (!fileName) {
+            continue;
+        }
+        const lines = getOrCreate(coverage, fileName);
+        for (const line of childElements(file, 'line')) {
+            // Method lines duplicate the count of their first statement
+            if (line.attributes['type'] === 'method') {
+                continue;
+            }
+            addHits(lines, parseInt(line.attributes['num'], 10), parseInt(line.attributes['count'], 10));
+        }
+    }
+
+    return coverage;
+}
+
+/**
+ * Parse a Cobertura report (`--coverage-cobertura`).
+ * Class file names are relative to the `<source>` roots.
+ */
+export function parseCobertura(content: string): LineCoverage {
+    const coverage: LineCoverage = new Map();
+    const root = parseXml(content);
+    if (!root) {
+        return coverage;
+    }
+
+    const sources = findElements(root, 'source').map(source => source.text.trim()).filter(source => source);
+    const sourceRoot = sources[0] ?? '';
+
+    for (const cls of findElements(root, 'class')) {
+        const fileName = cls.attributes['filename'];
+        if (!fileName) {
+            continue;
+        }
+        const filePath = path.isAbsolute(fileName) ? fileName : path.join(sourceRoot, fileName);
+        const lines = getOrCreate(coverage, filePath);
+        // Only the class's own <lines>, not the per-method copies
+        for (const linesElement of childElements(cls, 'lines')) {
+            for (const line of childElements(linesElement, 'line')) {
+                addHits(lines, parseInt(line.attributes['number'], 10), parseInt(line.attributes['hits'], 10));
+            }
+        }
+    }
+
+    return coverage;
+}
+
+/**
+ * Merge coverage from several runs into `target`, summing hit counts
+ */
+export function mergeCoverage(target: LineCoverage, source: LineCoverage): void {
+    for (const [file, lines] of source) {
+        const targetLines = getOrCreate(target, file);
+        for (const [line, hits] of lines) {
+            addHits(targetLines, line, hits);
+        }
+    }
+}
+
+function getOrCreate(coverage: LineCoverage, file: string): Map<number, number> {
+    let lines = coverage.get(file);
+    if (!lines) {
+        lines = new Map();
+        coverage.set(file, lines);
+    }
+    return lines;
+}
+
+function addHits(lines: Map<number, number>, line: number, hits: number): void {
+    if (isNaN(line) || isNaN(hits)) {
+        return;
+    }
+    lines.set(line, (lines.get(line) ?? 0) + hits);
+}
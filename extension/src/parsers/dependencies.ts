@@ -0,0 +1,349 @@
+/**
+ * Dependency extraction for test files
+ *
+ * Finds the scripts and PHP files a test exercises, so a change to one of them
+ * can be traced back to its tests. This is static guesswork: paths built from
+ * variables that can't be followed keep their known trailing part, which is
+ * then matched against the end of a file's path.
+ */
+
+import * as path from 'path';
+
+/** Where Unraid plugins live; tests map these paths onto the plugin's source directory */
+const PLUGIN_PATH_REGEX = /^\/usr\/local\/emhttp\/plugins\/([^/]+)\/(.+)$/;
+
+export interface PathReference {
+    /** Absolute paths the reference may resolve to, most likely first */
+    candidates: string[];
+    /** The known trailing part of a path that can't be resolved */
+    tail?: string;
+    /** Plugin name of a `/usr/local/emhttp/plugins/<name>/...` path */
+    plugin?: string;
+    /** Whether the file becomes part of the test (`source`, `load`, `require`) rather than being run */
+    included: boolean;
+}
+
+export interface Dependencies {
+    paths: PathReference[];
+    /** Fully qualified names of the PHP classes a test uses */
+    classes: string[];
+}
+
+/**
+ * References to scripts in a `.bats` file (or a helper it loads): `load`,
+ * `source`/`.`, the command of `run`, and paths built from `$BATS_TEST_DIRNAME`
+ */
+export function extractBashDependencies(content: string, filePath: string, workspaceRoot: string): Dependencies {
+    const directory = path.dirname(filePath);
+    const paths: PathReference[] = [];
+    const seen = new Set<string>();
+    const add = (reference: PathReference | undefined) => {
+        const key = reference && (reference.candidates[0] ?? reference.tail);
+        if (reference && key && !seen.has(key)) {
+            seen.add(key);
+            paths.push(reference);
+        }
+    };
+
+    for (const line of content.split('\n')) {
+        const words = splitShellWords(line.replace(/\r$/, ''));
+        if (words.length === 0 || words[0].startsWith('#')) {
+            continue;
+        }
+
+        for (let i = 0; i < words.length; i++) {
+            const word = words[i];
+            const next = words[i + 1];
+            const atCommand = i === 0 || /^(?:;|&&|\|\||\||then|do|else|\{|\()$/.test(words[i - 1]);
+
+            if (atCommand && word === 'load' && next) {
+                // bats tries `<name>.bash` first, relative to the test file
+                const reference = resolveBashPath(next, directory, [directory], true);
+                if (reference && !/\.(?:bash|sh)$/.test(next)) {
+                    reference.candidates = reference.candidates.flatMap(candidate => [`${candidate}.bash`, candidate]);
+                    reference.tail = reference.tail && `${reference.tail}.bash`;
+                }
+                add(reference);
+            } else if (atCommand && (word === 'source' || word === '.') && next) {
+                // Tests run from the workspace folder, but most scripts source relative to the test
+                add(resolveBashPath(next, directory, [directory, workspaceRoot], true));
+            } else if (atCommand && word === 'run') {
+                let command = i + 1;
+                while (words[command]?.startsWith('-')) {
+                    command++;
+                }
+                if (/^(?:bash|sh)$/.test(words[command] ?? '')) {
+                    command++;
+                }
+                const script = words[command];
+                if (script && script.includes('/')) {
+                    add(resolveBashPath(script, directory, [workspaceRoot, directory], false));
+                }
+            } else if (word.includes('BATS_TEST_DIRNAME') || word.includes('BATS_TEST_FILENAME')) {
+                add(resolveBashPath(word.replace(/^\w+=/, ''), directory, [directory], false));
+            }
+        }
+    }
+
+    return { paths, classes: [] };
+}
+
+/**
+ * Files a PHP test `require`s or `include`s and the classes it imports or uses
+ */
+export function extractPhpDependencies(content: string, filePath: string): Dependencies {
+    const code = stripPhpComments(content);
+    const directory = path.dirname(filePath);
+    const paths: PathReference[] = [];
+
+    const includeRegex = /\b(?:require|include)(?:_once)?\b\s*\(?([^;]+?)\)?\s*;/g;
+    let include: RegExpExecArray | null;
+    while ((include = includeRegex.exec(code)) !== null) {
+        const reference = resolvePhpPath(include[1], directory);
+        if (reference) {
+            paths.push(reference);
+        }
+    }
+
+    return { paths, classes: extractPhpClassReferences(code) };
+}
+
+/**
+ * Fully qualified names of the classes, interfaces, traits and enums a PHP file declares
+ */
+export function extractPhpDeclarations(content: string): string[] {
+    const code = stripPhpComments(content);
+    const declarations: string[] = [];
+    const regex = /\bnamespace\s+([\w\\]+)\s*[;{]|(?:^|[\s;{}])(?<!\bnew\s+)(?:(?:abstract|final|readonly)\s+)*(?:class|interface|trait|enum)\s+(?!extends\b|implements\b)([A-Za-z_]\w*)/g;
+    let namespace = '';
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(code)) !== null) {
+        if (match[1] !== undefined) {
+            namespace = match[1];
+        } else {
+            declarations.push(namespace ? `${namespace}\\${match[2]}` : match[2]);
+        }
+    }
+    return declarations;
+}
+
+/**
+ * Whether a test with these dependencies exercises the file at `filePath`
+ * (which declares `declaredClasses`)
+ */
+export function dependsOn(dependencies: Dependencies, filePath: string, declaredClasses: readonly string[] = []): boolean {
+    const normalized = normalizePath(filePath);
+    if (dependencies.paths.some(reference => matchesPathReference(reference, normalized))) {
+        return true;
+    }
+    return declaredClasses.some(name => dependencies.classes.includes(name));
+}
+
+function matchesPathReference(reference: PathReference, normalizedPath: string): boolean {
+    if (reference.candidates.some(candidate => normalizePath(candidate) === normalizedPath)) {
+        return true;
+    }
+    if (!reference.tail) {
+        return false;
+    }
+    if (normalizedPath.endsWith(`/${reference.tail}`)) {
+        return true;
+    }
+    // The plugin's files may be checked out as `source/<plugin>/...` rather than the full emhttp path
+    return reference.plugin !== undefined
+        && path.posix.basename(normalizedPath) === path.posix.basename(reference.tail)
+        && normalizedPath.split('/').includes(reference.plugin);
+}
+
+/**
+ * Turn a shell word into a path reference. Relative paths are resolved against each base directory.
+ */
+function resolveBashPath(word: string, directory: string, bases: string[], included: boolean): PathReference | undefined {
+    const unquoted = word.replace(/["']/g, '');
+    const value = unquoted
+        .replace(/^\$\(\s*dirname\s+\$\{?BATS_TEST_FILENAME\}?\s*\)/, directory)
+        .replace(/^\$\{?BATS_TEST_DIRNAME\}?/, directory);
+
+    if (!value || value.startsWith('-') || /[*?]/.test(value)) {
+        return undefined;
+    }
+    if (value !== unquoted && !value.includes('$')) {
+        return { candidates: [path.normalize(value)], included };
+    }
+    // Anything still depending on a variable: keep what follows it
+    if (value.includes('$')) {
+        const tail = value.replace(/^.*\$(?:\{[^}]*\}|\(\([^)]*\)\)|\([^)]*\)|\w+)/, '').replace(/^\/+/, '');
+        return tail && !tail.includes('$') ? { candidates: [], tail: path.posix.normalize(tail), included } : undefined;
+    }
+    return resolveLiteralPath(value, bases, included);
+}
+
+/**
+ * Evaluate a PHP include expression as far as possible: `__DIR__ . '/../src/Foo.php'`,
+ * `dirname(__DIR__, 2) . '/x.php'`, `'/usr/local/emhttp/plugins/...'`
+ */
+function resolvePhpPath(expression: string, directory: string): PathReference | undefined {
+    const parts = splitPhpConcatenation(expression.trim());
+    let base: string | undefined;
+    let literal = '';
+    let unknown = false;
+
+    for (const part of parts) {
+        const dirname = /^dirname\(\s*__DIR__\s*(?:,\s*(\d+)\s*)?\)$/.exec(part);
+        const string = /^(['"])(.*)\1$/s.exec(part);
+        if (part === '__DIR__' && !literal) {
+            base = directory;
+        } else if (dirname && !literal) {
+            base = path.resolve(directory, ...Array<string>(parseInt(dirname[1] ?? '1', 10)).fill('..'));
+        } else if (string && !(string[1] === '"' && string[2].includes('$'))) {
+            literal += string[2];
+        } else {
+            // A constant, variable or call we can't evaluate; only what follows it is known
+            unknown = true;
+            base = undefined;
+            literal = '';
+        }
+    }
+
+    if (!literal) {
+        return undefined;
+    }
+    if (unknown) {
+        const tail = path.posix.normalize(literal.replace(/^\/+/, ''));
+        return tail ? { candidates: [], tail, included: true } : undefined;
+    }
+    if (base) {
+        return { candidates: [path.resolve(base, literal.replace(/^\/+/, ''))], included: true };
+    }
+    return resolveLiteralPath(literal, [directory], true);
+}
+
+/**
+ * A path written literally in a test. Absolute paths are paths on the Unraid server,
+ * which a plugin checkout mirrors (e.g. `source/usr/local/emhttp/plugins/...`).
+ */
+function resolveLiteralPath(value: string, bases: string[], included: boolean): PathReference {
+    if (value.startsWith('/')) {
+        const normalized = path.posix.normalize(value);
+        const plugin = PLUGIN_PATH_REGEX.exec(normalized);
+        return { candidates: [], tail: normalized.substring(1), plugin: plugin?.[1], included };
+    }
+    return { candidates: bases.map(base => path.resolve(base, value)), included };
+}
+
+/**
+ * Class names used in PHP code, resolved against the file's namespace and `use` imports
+ */
+function extractPhpClassReferences(code: string): string[] {
+    const namespace = /\bnamespace\s+([\w\\]+)\s*[;{]/.exec(code)?.[1] ?? '';
+    const imports = new Map<string, string>();
+    const classes = new Set<string>();
+
+    const useRegex = /^\s*use\s+(?!function\b|const\b)([\w\\]+)(?:\s*\\\{([^}]+)\}|\s+as\s+(\w+))?\s*;/gm;
+    let use: RegExpExecArray | null;
+    while ((use = useRegex.exec(code)) !== null) {
+        const prefix = use[1].replace(/^\\|\\$/g, '');
+        const names = use[2]
+            ? use[2].split(',').map(entry => entry.trim()).filter(entry => entry).map(entry => `${prefix}\\${entry}`)
+            : [use[3] ? `${prefix} as ${use[3]}` : prefix];
+        for (const name of names) {
+            const [fullName, alias] = name.split(/\s+as\s+/);
+            imports.set(alias ?? fullName.split('\\').pop()!, fullName);
+            classes.add(fullName);
+        }
+    }
+
+    const resolve = (name: string): string | undefined => {
+        if (/^(?:self|static|parent|class)$/i.test(name)) {
+            return undefined;
+        }
+        if (name.startsWith('\\')) {
+            return name.substring(1);
+        }
+        const [first, ...rest] = name.split('\\');
+        const imported = imports.get(first);
+        if (imported) {
+            return [imported, ...rest].join('\\');
+        }
+        return namespace ? `${namespace}\\${name}` : name;
+    };
+
+    const usageRegex = /\bnew\s+(\\?[A-Za-z_][\w\\]*)|(?<![\w$\\>])(\\?[A-Za-z_][\w\\]*)::|\b(?:extends|instanceof)\s+(\\?[A-Za-z_][\w\\]*)|\bimplements\s+([\w\\\s,]+?)\s*\{/g;
+    let usage: RegExpExecArray | null;
+    while ((usage = usageRegex.exec(code)) !== null) {
+        const names = usage[4] ? usage[4].split(',').map(name => name.trim()) : [usage[1] ?? usage[2] ?? usage[3]];
+        for (const name of names) {
+            const resolved = name && resolve(name);
+            if (resolved) {
+                classes.add(resolved);
+            }
+        }
+    }
+
+    return [...classes];
+}
+
+/**
+ * Split a PHP expression on top-level `.` operators
+ */
+function splitPhpConcatenation(expression: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quote: string | undefined;
+    let depth = 0;
+
+    for (let i = 0; i < expression.length; i++) {
+        const char = expression[i];
+        if (quote) {
+            current += char;
+            if (char === '\\') {
+                current += expression[++i] ?? '';
+            } else if (char === quote) {
+                quote = undefined;
+            }
+        } else if (char === '\'' || char === '"') {
+            quote = char;
+            current += char;
+        } else if (char === '(') {
+            depth++;
+            current += char;
+        } else if (char === ')') {
+            depth--;
+            current += char;
+        } else if (char === '.' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current.trim());
+
+    return parts.filter(part => part);
+}
+
+/**
+ * Split a shell line into words, keeping quoted strings together and control operators apart
+ */
+function splitShellWords(line: string): string[] {
+    const words: string[] = [];
+    const regex = /(?:"(?:[^"\\]|\\.)*"|'[^']*'|\$\([^)]*\)|[^\s;|&()"'])+|&&|\|\||[;|&()]/g;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(line)) !== null) {
+        if (match[0].startsWith('#')) {
+            break;
+        }
+        words.push(match[0]);
+    }
+    return words;
+}
+
+function stripPhpComments(content: string): string {
+    return content
+        .replace(/\/\*[\s\S]*?\*\//g, '')
+        .replace(/^\s*(?:\/\/|#(?!\[)).*$/gm, '');
+}
+
+function normalizePath(filePath: string): string {
+    return path.normalize(filePath).replace(/\\/g, '/');
+}
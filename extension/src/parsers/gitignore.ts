@@ -0,0 +1,88 @@
+/**
+ * .gitignore parser
+ *
+ * Supports what test discovery needs: negation, directory-only patterns,
+ * anchored patterns and nested .gitignore files. As in Git, a file inside an
+ * ignored directory can't be re-included.
+ */
+
+import { globToRegExp } from '../utils/glob';
+
+export interface IgnoreRule {
+    regex: RegExp;
+    negated: boolean;
+    /** Only matches directories (pattern ends with `/`) */
+    directoryOnly: boolean;
+    /** Directory of the .gitignore, relative to the workspace folder ('' for the root) */
+    base: string;
+}
+
+/**
+ * @param base Directory containing the .gitignore, relative to the workspace folder
+ */
+export function parseGitignore(content: string, base = ''): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+
+    for (const raw of content.split('\n')) {
+        let line = raw.replace(/\r$/, '').replace(/(?<!\\)\s+$/, '');
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+
+        const negated = line.startsWith('!');
+        if (negated) {
+            line = line.substring(1);
+        }
+        line = line.replace(/^\\([#!])/, '$1');
+
+        const directoryOnly = line.endsWith('/');
+        if (directoryOnly) {
+            line = line.replace(/\/+$/, '');
+        }
+        if (!line) {
+            continue;
+        }
+
+        // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+        const anchored = line.includes('/');
+        const glob = anchored ? line.replace(/^\//, '') : `**/${line}`;
+        rules.push({ regex: globToRegExp(glob), negated, directoryOnly, base: base.replace(/\\/g, '/').replace(/\/$/, '') });
+    }
+
+    return rules;
+}
+
+/**
+ * Whether a file (path relative to the workspace folder) is ignored. Rules from
+ * deeper .gitignore files must come after those of their parents.
+ */
+export function isIgnored(rules: readonly IgnoreRule[], relativePath: string): boolean {
+    const segments = relativePath.replace(/\\/g, '/').split('/');
+
+    for (let i = 1; i <= segments.length; i++) {
+        const candidate = segments.slice(0, i).join('/');
+        const isDirectory = i < segments.length;
+        let ignored = false;
+
+        for (const rule of rules) {
+            if (rule.directoryOnly && !isDirectory) {
+                continue;
+            }
+            const local = rule.base ? relativeTo(rule.base, candidate) : candidate;
+            if (local !== undefined && rule.regex.test(local)) {
+                ignored = !rule.negated;
+            }
+        }
+
+        // Nothing below an ignored directory can be re-included
+        if (ignored) {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+function relativeTo(base: string, candidate: string): string | undefined {
+    return candidate.startsWith(`${base}/`) ? candidate.substring(base.length + 1) : undefined;
+}
@@ -0,0 +1,166 @@
+/**
+ * PHPUnit JUnit XML report parser (`--log-junit`)
+ */
+
+import { parseXml, findElements, childElements, XmlElement } from '../utils/xml';
+
+/**
+ * JUnit distinguishes failures, errors, skips and risky tests. PHPUnit
+ * reports incomplete tests as skipped, so they share that outcome.
+ */
+export type JUnitOutcome = 'passed' | 'failed' | 'errored' | 'skipped' | 'risky';
+
+export interface StackFrame {
+    file: string;
+    /** One-based line number */
+    line: number;
+}
+
+export interface JUnitTestCase {
+    /** Method name, including any ` with data set ...` suffix */
+    name: string;
+    /** Fully qualified class name */
+    className: string;
+    file?: string;
+    /** One-based line of the test method */
+    line?: number;
+    /** Duration in milliseconds */
+    duration: number;
+    outcome: JUnitOutcome;
+    /** Exception or fault type reported by PHPUnit */
+    type?: string;
+    /** Failure message without the test name header and stack trace */
+    message?: string;
+    stack: StackFrame[];
+}
+
+const RISKY_TYPES = ['PHPUnit\\Event\\Test\\ConsideredRisky', 'PHPUnit\\Framework\\RiskyTestError', 'PHPUnit\\Framework\\RiskyTest'];
+
+export function parseJUnitReport(content: string): JUnitTestCase[] {
+    const root = parseXml(content);
+    if (!root) {
+        return [];
+    }
+
+    return findElements(root, 'testcase').map(parseTestCase);
+}
+
+function parseTestCase(element: XmlElement): JUnitTestCase {
+    const attributes = element.attributes;
+    // PHPUnit writes the real class name in `class`; `classname` uses dots
+    const className = attributes['class'] ?? (attributes['classname'] ?? '').replace(/\./g, '\\');
+    const line = parseInt(attributes['line'], 10);
+
+    const testCase: JUnitTestCase = {
+        name: attributes['name'] ?? '',
+        className,
+        file: attributes['file'],
+        line: isNaN(line) ? undefined : line,
+        duration: Math.round(parseFloat(attributes['time'] ?? '0') * 1000) || 0,
+        outcome: 'passed',
+        stack: []
+    };
+
+    const failure = childElements(element, 'failure')[0];
+    const error = childElements(element, 'error')[0];
+    const fault = failure ?? error;
+
+    if (fault) {
+        testCase.type = fault.attributes['type'];
+        if (error && !failure && RISKY_TYPES.includes(testCase.type ?? '')) {
+            testCase.outcome = 'risky';
+        } else {
+            testCase.outcome = failure ? 'failed' : 'errored';
+        }
+        const { message, stack } = splitFaultText(fault.text || fault.attributes['message'] || '', className, testCase.name);
+        testCase.message = message;
+        testCase.stack = stack;
+    } else if (childElements(element, 'skipped').length > 0) {
+        testCase.outcome = 'skipped';
+        testCase.message = childElements(element, 'skipped')[0].attributes['message'];
+    }
+
+    return testCase;
+}
+
+/**
+ * PHPUnit fault text is `Class::method` + message + blank line + `file:line` frames
+ */
+function splitFaultText(text: string, className: string, name: string): { message: string; stack: StackFrame[] } {
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+
+    if (lines.length > 0 && lines[0].trim() === `${className}::${name}`) {
+        lines.shift();
+    }
+
+    const stack: StackFrame[] = [];
+    const frameRegex = /^(.+):(\d+)$/;
+    while (lines.length > 0) {
+        const last = lines[lines.length - 1].trim();
+        if (last === '') {
+            lines.pop();
+            continue;
+        }
+        const frame = frameRegex.exec(last);
+        if (!frame || !/[\\/]/.test(frame[1])) {
+            break;
+        }
+        stack.unshift({ file: frame[1], line: parseInt(frame[2], 10) });
+        lines.pop();
+    }
+
+    return { message: lines.join('\n').trim(), stack };
+}
+
+/**
+ * Split a comparison failure into its summary and the two sides of the
+ * unified diff PHPUnit appends ("--- Expected" / "+++ Actual").
+ */
+export function parseComparisonDiff(message: string): { summary: string; expected: string; actual: string } | undefined {
+    const lines = message.split('\n');
+    const start = lines.findIndex((line, i) => line === '--- Expected' && lines[i + 1] === '+++ Actual');
+    if (start === -1) {
+        return undefined;
+    }
+
+    const expected: string[] = [];
+    const actual: string[] = [];
+    for (const line of lines.slice(start + 2)) {
+        if (line.startsWith('@@')) {
+            continue;
+        }
+        if (line.startsWith('-')) {
+            expected.push(line.substring(1));
+        } else if (line.startsWith('+')) {
+            actual.push(line.substring(1));
+        } else {
+            const common = line.startsWith(' ') ? line.substring(1) : line;
+            expected.push(common);
+            actual.push(common);
+        }
+    }
+
+    return {
+        summary: lines.slice(0, start).join('\n').trim(),
+        expected: expected.join('\n'),
+        actual: actual.join('\n')
+    };
+}
+
+const DATA_SET_SEPARATOR = ' with data set ';
+
+/**
+ * Strip PHPUnit's data set suffix: `testFoo with data set "bar"` -> `testFoo`
+ */
+export function getMethodName(testCaseName: string): string {
+    const index = testCaseName.indexOf(DATA_SET_SEPARATOR);
+    return index === -1 ? testCaseName : testCaseName.substring(0, index);
+}
+
+/**
+ * The data set part of a test case name: `#0` or `"bar"`, if any
+ */
+export function getDataSetName(testCaseName: string): string | undefined {
+    const index = testCaseName.indexOf(DATA_SET_SEPARATOR);
+    return index === -1 ? undefined : testCaseName.substring(index + DATA_SET_SEPARATOR.length);
+}
@@ -0,0 +1,74 @@
+/**
+ * Mock call log parser
+ *
+ * The BATS mocks (`bats/helpers/mocks.bash`) record each call of a mocked
+ * command as one tab-separated line: time, suite test number, test file,
+ * test name, calling file and line, command, exit status and arguments.
+ */
+
+export interface MockCall {
+    /** Seconds since the epoch (bash 5 `EPOCHREALTIME`) */
+    time?: number;
+    /** `BATS_SUITE_TEST_NUMBER`; missing outside a test (e.g. in `setup_file`) */
+    testNumber?: number;
+    /** Test file as bats reports it (a container path for runs in Docker) */
+    file?: string;
+    /** Test name; missing outside a test */
+    test?: string;
+    /** File the mock was called from */
+    source?: string;
+    /** Zero-based line the mock was called from */
+    line?: number;
+    command: string;
+    args: string[];
+    /** Exit status the mock returned */
+    status: number;
+}
+
+export function parseMockCalls(log: string): MockCall[] {
+    const calls: MockCall[] = [];
+
+    for (const raw of log.split('\n')) {
+        const fields = raw.replace(/\r$/, '').split('\t').map(unescapeField);
+        if (fields.length < 8 || !fields[6]) {
+            continue;
+        }
+
+        const [time, testNumber, file, test, source, line, command, status, ...args] = fields;
+        const lineNumber = parseInt(line, 10);
+        calls.push({
+            // EPOCHREALTIME follows the locale's decimal separator
+            time: time ? parseFloat(time.replace(',', '.')) : undefined,
+            testNumber: testNumber ? parseInt(testNumber, 10) : undefined,
+            file: file || undefined,
+            test: test || undefined,
+            source: source || undefined,
+            line: lineNumber > 0 ? lineNumber - 1 : undefined,
+            command,
+            args,
+            status: parseInt(status, 10) || 0
+        });
+    }
+
+    return calls;
+}
+
+/**
+ * A call as a shell command line with its exit status, e.g. `docker compose up -d → 0`
+ */
+export function formatMockCall(call: MockCall): string {
+    const words = [call.command, ...call.args].map(quoteShellWord);
+    return `${words.join(' ')} → ${call.status}`;
+}
+
+function unescapeField(field: string): string {
+    return field.replace(/\\([\\tn])/g, (_match, char: string) => char === 't' ? '\t' : char === 'n' ? '\n' : '\\');
+}
+
+function quoteShellWord(word: string): string {
+    if (/^[\w@%+=:,./-]+$/.test(word)) {
+        return word;
+    }
+    const quoted = `'${word.replace(/'/g, `'\\''`)}'`;
+    return quoted.replace(/\t/g, '\\t').replace(/\n/g, '\\n');
+}
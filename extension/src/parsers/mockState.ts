@@ -0,0 +1,92 @@
+/**
+ * Mock state log parser
+ *
+ * The framework's PHPUnit extension (`PluginTests\PHPUnit\MockStateExtension`)
+ * writes one JSON line per failed or errored test with the mock state at the
+ * time of the failure: `$var`, `$disks`, `$shares`, the Docker mocks and the
+ * messages captured by `getLogs()`.
+ */
+
+export interface MockStateSnapshot {
+    className: string;
+    methodName: string;
+    /** Data set as PHPUnit names it: `#0` or `"name"` */
+    dataSet?: string;
+    state: Record<string, unknown>;
+}
+
+/** Sections of a snapshot in display order, with their titles */
+const SECTIONS: [key: string, title: string][] = [
+    ['var', '$var'],
+    ['disks', '$disks'],
+    ['shares', '$shares'],
+    ['containers', 'Docker containers'],
+    ['updateStatus', 'Docker image update status']
+];
+
+export function parseMockStateLog(content: string): MockStateSnapshot[] {
+    const snapshots: MockStateSnapshot[] = [];
+
+    for (const line of content.split('\n')) {
+        if (!line.trim()) {
+            continue;
+        }
+        try {
+            const entry = JSON.parse(line) as { class?: unknown; method?: unknown; dataSet?: unknown; state?: unknown };
+            if (typeof entry.class !== 'string' || typeof entry.method !== 'string' || !isRecord(entry.state)) {
+                continue;
+            }
+            snapshots.push({
+                className: entry.class,
+                methodName: entry.method,
+                dataSet: typeof entry.dataSet === 'string' ? entry.dataSet : undefined,
+                state: entry.state
+            });
+        } catch {
+            // A line cut short by a killed run
+        }
+    }
+
+    return snapshots;
+}
+
+/**
+ * The test name PHPUnit reports for a snapshot's test, e.g. `testFoo with data set #0`
+ */
+export function getSnapshotTestName(snapshot: MockStateSnapshot): string {
+    return snapshot.dataSet !== undefined
+        ? `${snapshot.methodName} with data set ${snapshot.dataSet}`
+        : snapshot.methodName;
+}
+
+/**
+ * Readable text of a snapshot: each mocked global and Docker mock as JSON, then the captured logs
+ */
+export function formatMockState(snapshot: MockStateSnapshot): string {
+    const lines = ['Mock state at failure'];
+
+    for (const [key, title] of SECTIONS) {
+        if (!(key in snapshot.state)) {
+            continue;
+        }
+        const value = snapshot.state[key];
+        const empty = value === null || (typeof value === 'object' && Object.keys(value as object).length === 0);
+        lines.push('', `${title}:${empty ? ' (empty)' : ''}`);
+        if (!empty) {
+            lines.push(JSON.stringify(value, null, 2));
+        }
+    }
+
+    const logs = Array.isArray(snapshot.state['logs']) ? snapshot.state['logs'] : [];
+    lines.push('', `Logs (getLogs()):${logs.length === 0 ? ' (none)' : ''}`);
+    for (const log of logs) {
+        const entry = isRecord(log) ? log : {};
+        lines.push(`[${String(entry['level'] ?? '')}] ${String(entry['message'] ?? '')}`);
+    }
+
+    return lines.join('\n');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,537 @@
+/**
+ * PHP test file structure parser
+ *
+ * Tokenizes PHP source (skipping strings, comments and heredocs, keeping
+ * docblocks and attributes) and builds the namespace -> class -> method
+ * structure PHPUnit would see: `test*` methods, `@test` / `#[Test]` methods,
+ * groups, dependencies and data providers. Abstract classes, interfaces,
+ * traits and enums are never reported as test classes.
+ */
+
+type TokenType = 'name' | 'variable' | 'string' | 'number' | 'docblock' | 'attribute' | 'punct';
+
+interface Token {
+    type: TokenType;
+    value: string;
+    /** Zero-based line the token starts on */
+    line: number;
+}
+
+export interface PhpTestMethod {
+    name: string;
+    /** Zero-based line of the method declaration */
+    line: number;
+    groups: string[];
+    /** Methods of the same class this test depends on */
+    depends: string[];
+    hasDataProvider: boolean;
+    /** Milliseconds from a `#[Timeout(...)]` attribute */
+    timeout?: number;
+}
+
+export interface PhpTestClass {
+    /** Short class name */
+    name: string;
+    namespace: string;
+    /** Fully qualified name without leading backslash, as PHPUnit reports it */
+    fqcn: string;
+    /** Zero-based line of the class declaration */
+    line: number;
+    groups: string[];
+    /** Milliseconds from a `#[Timeout(...)]` attribute, for all its tests */
+    timeout?: number;
+    methods: PhpTestMethod[];
+}
+
+interface ParsedMethod extends PhpTestMethod {
+    isTest: boolean;
+}
+
+interface ParsedClass {
+    name: string;
+    namespace: string;
+    line: number;
+    kind: 'class' | 'interface' | 'trait' | 'enum';
+    isAbstract: boolean;
+    parent?: string;
+    groups: string[];
+    timeout?: number;
+    methods: ParsedMethod[];
+    /** Brace depth of the class body */
+    bodyDepth: number;
+}
+
+interface Attribute {
+    /** Short attribute name, e.g. `Group` for `\PHPUnit\Framework\Attributes\Group` */
+    name: string;
+    /** String literal arguments */
+    args: string[];
+    /** Argument list as written */
+    raw: string;
+}
+
+const MODIFIERS = new Set(['public', 'protected', 'private', 'static', 'abstract', 'final', 'readonly', 'var']);
+const DATA_PROVIDER_ATTRIBUTES = new Set(['DataProvider', 'DataProviderExternal', 'TestWith', 'TestWithJson']);
+const DEPENDS_ATTRIBUTES = new Set(['Depends', 'DependsUsingDeepClone', 'DependsUsingShallowClone']);
+
+/**
+ * Parse a PHP file and return its concrete test classes
+ */
+export function parsePhpTestFile(content: string): PhpTestClass[] {
+    const classes = parseClasses(tokenize(content));
+    const byName = new Map(classes.map(cls => [cls.name, cls]));
+
+    return classes
+        // A test class has to extend (directly or not) PHPUnit's TestCase
+        .filter(cls => cls.kind === 'class' && !cls.isAbstract && cls.parent !== undefined)
+        .map(cls => ({
+            name: cls.name,
+            namespace: cls.namespace,
+            fqcn: cls.namespace ? `${cls.namespace}\\${cls.name}` : cls.name,
+            line: cls.line,
+            groups: cls.groups,
+            timeout: cls.timeout,
+            methods: collectTestMethods(cls, byName).map(method => ({
+                name: method.name,
+                line: method.line,
+                groups: [...new Set([...cls.groups, ...method.groups])],
+                depends: method.depends,
+                hasDataProvider: method.hasDataProvider,
+                timeout: method.timeout
+            }))
+        }))
+        .filter(cls => cls.methods.length > 0);
+}
+
+/**
+ * Own test methods plus those inherited from parents declared in the same file
+ */
+function collectTestMethods(cls: ParsedClass, byName: Map<string, ParsedClass>): ParsedMethod[] {
+    const methods = new Map<string, ParsedMethod>();
+    const seen = new Set<ParsedClass>();
+    let current: ParsedClass | undefined = cls;
+
+    while (current && !seen.has(current)) {
+        seen.add(current);
+        for (const method of current.methods) {
+            // The most derived declaration wins, even if it is no longer a test
+            if (!methods.has(method.name)) {
+                methods.set(method.name, method);
+            }
+        }
+        current = current.parent ? byName.get(shortName(current.parent)) : undefined;
+    }
+
+    return [...methods.values()].filter(method => method.isTest).sort((a, b) => a.line - b.line);
+}
+
+function parseClasses(tokens: Token[]): ParsedClass[] {
+    const classes: ParsedClass[] = [];
+    const classStack: ParsedClass[] = [];
+    let namespace = '';
+    let namespaceDepth = -1;
+    let depth = 0;
+
+    let docblock = '';
+    let attributes: Attribute[] = [];
+    let modifiers: string[] = [];
+    const resetPending = () => {
+        docblock = '';
+        attributes = [];
+        modifiers = [];
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        const previous = tokens[i - 1];
+        const currentClass = classStack[classStack.length - 1];
+        const inClassBody = currentClass !== undefined && depth === currentClass.bodyDepth;
+
+        if (token.type === 'punct') {
+            if (token.value === '{') {
+                depth++;
+                resetPending();
+            } else if (token.value === '}') {
+                depth--;
+                if (currentClass && depth < currentClass.bodyDepth) {
+                    classStack.pop();
+                }
+                if (namespaceDepth !== -1 && depth === namespaceDepth) {
+                    namespace = '';
+                    namespaceDepth = -1;
+                }
+                resetPending();
+            } else if (token.value === ';') {
+                resetPending();
+            }
+            continue;
+        }
+
+        if (token.type === 'docblock') {
+            docblock = token.value;
+            continue;
+        }
+
+        if (token.type === 'attribute') {
+            attributes.push(...parseAttributes(token.value));
+            continue;
+        }
+
+        if (token.type !== 'name') {
+            continue;
+        }
+
+        const keyword = token.value.toLowerCase();
+        const afterMemberAccess = previous?.type === 'punct' && (previous.value === '::' || previous.value === '->' || previous.value === '?->');
+
+        const next = tokens[i + 1];
+        if (keyword === 'namespace' && !currentClass && (next?.type === 'name' || next?.value === '{')) {
+            if (next.type === 'name') {
+                namespace = next.value.replace(/^\\/, '');
+                i++;
+            } else {
+                namespace = '';
+            }
+            if (tokens[i + 1]?.value === '{') {
+                namespaceDepth = depth;
+            }
+            resetPending();
+            continue;
+        }
+
+        if (MODIFIERS.has(keyword)) {
+            modifiers.push(keyword);
+            continue;
+        }
+
+        if ((keyword === 'class' || keyword === 'interface' || keyword === 'trait' || keyword === 'enum') && !afterMemberAccess) {
+            const nameToken = tokens[i + 1];
+            // Anonymous classes (`new class`) and `enum` used as an identifier
+            if (previous?.value.toLowerCase() === 'new' || nameToken?.type !== 'name') {
+                continue;
+            }
+
+            const parsed: ParsedClass = {
+                name: nameToken.value,
+                namespace,
+                line: token.line,
+                kind: keyword,
+                isAbstract: modifiers.includes('abstract'),
+                groups: [
+                    ...getDocTags(docblock, 'group'),
+                    ...attributes.filter(a => a.name === 'Group').flatMap(a => a.args.slice(0, 1))
+                ],
+                timeout: getTimeout(attributes),
+                methods: [],
+                bodyDepth: -1
+            };
+
+            // Header up to the opening brace: extends/implements
+            let j = i + 2;
+            for (; j < tokens.length && tokens[j].value !== '{'; j++) {
+                if (tokens[j].type === 'name' && tokens[j].value.toLowerCase() === 'extends' && tokens[j + 1]?.type === 'name') {
+                    parsed.parent = tokens[j + 1].value;
+                }
+            }
+            parsed.bodyDepth = depth + 1;
+            classes.push(parsed);
+            classStack.push(parsed);
+            i = j - 1;
+            resetPending();
+            continue;
+        }
+
+        if (keyword === 'function' && inClassBody) {
+            let j = i + 1;
+            if (tokens[j]?.value === '&') {
+                j++;
+            }
+            const nameToken = tokens[j];
+            if (nameToken?.type === 'name') {
+                currentClass.methods.push(createMethod(nameToken.value, token.line, docblock, attributes, modifiers));
+            }
+            resetPending();
+            i = j;
+            continue;
+        }
+    }
+
+    return classes;
+}
+
+function createMethod(name: string, line: number, docblock: string, attributes: Attribute[], modifiers: string[]): ParsedMethod {
+    const isPublic = !modifiers.includes('private') && !modifiers.includes('protected');
+    const isAbstract = modifiers.includes('abstract');
+    const markedAsTest = /@test\b/.test(docblock) || attributes.some(a => a.name === 'Test');
+
+    return {
+        name,
+        line,
+        isTest: isPublic && !isAbstract && (name.startsWith('test') || markedAsTest),
+        groups: [
+            ...getDocTags(docblock, 'group'),
+            ...attributes.filter(a => a.name === 'Group').flatMap(a => a.args.slice(0, 1))
+        ],
+        depends: [
+            // `@depends clone testFoo` / `@depends Other::testFoo` -> only same-class names are kept
+            ...getDocTags(docblock, 'depends').map(dep => dep.split(/\s+/).pop() ?? dep),
+            ...attributes.filter(a => DEPENDS_ATTRIBUTES.has(a.name)).flatMap(a => a.args.slice(0, 1))
+        ].filter(dep => dep && !dep.includes('::')),
+        hasDataProvider: getDocTags(docblock, 'dataProvider').length > 0
+            || attributes.some(a => DATA_PROVIDER_ATTRIBUTES.has(a.name)),
+        timeout: getTimeout(attributes)
+    };
+}
+
+/**
+ * `#[Timeout(5000)]` (the framework's PluginTests\Attributes\Timeout) in milliseconds
+ */
+function getTimeout(attributes: Attribute[]): number | undefined {
+    const attribute = attributes.find(a => a.name === 'Timeout');
+    const match = attribute ? /^\s*(?:milliseconds\s*:\s*)?(\d[\d_]*)/.exec(attribute.raw) : null;
+    return match ? parseInt(match[1].replace(/_/g, ''), 10) : undefined;
+}
+
+/**
+ * Values of a docblock tag, e.g. `@group slow` -> ['slow']
+ */
+function getDocTags(docblock: string, tag: string): string[] {
+    const values: string[] = [];
+    const regex = new RegExp(`@${tag}(?:[ \\t]+([^\\n*]+?))?[ \\t]*(?:\\*\\/|\\r?\\n|$)`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(docblock)) !== null) {
+        values.push((match[1] ?? '').trim());
+    }
+    return values;
+}
+
+/**
+ * Split `#[A, B('x')]` content into attributes with their string arguments
+ */
+function parseAttributes(content: string): Attribute[] {
+    const attributes: Attribute[] = [];
+    for (const part of splitTopLevel(content)) {
+        const match = /^\s*\\?([\w\\]+)\s*(?:\(([\s\S]*)\))?\s*$/.exec(part);
+        if (!match) {
+            continue;
+        }
+        const args: string[] = [];
+        const stringRegex = /'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"/g;
+        let arg: RegExpExecArray | null;
+        while ((arg = stringRegex.exec(match[2] ?? '')) !== null) {
+            args.push((arg[1] ?? arg[2]).replace(/\\(.)/g, '$1'));
+        }
+        attributes.push({ name: shortName(match[1]), args, raw: match[2] ?? '' });
+    }
+    return attributes;
+}
+
+function splitTopLevel(content: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote = '';
+    let current = '';
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quote) {
+            current += char;
+            if (char === '\\') {
+                current += content[++i] ?? '';
+            } else if (char === quote) {
+                quote = '';
+            }
+            continue;
+        }
+        if (char === '\'' || char === '"') {
+            quote = char;
+        } else if (char === '(' || char === '[') {
+            depth++;
+        } else if (char === ')' || char === ']') {
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    if (current.trim()) {
+        parts.push(current);
+    }
+    return parts;
+}
+
+function shortName(name: string): string {
+    return name.substring(name.lastIndexOf('\\') + 1);
+}
+
+/**
+ * Tokenize PHP source. Only the tokens the structure parser needs are
+ * produced: names, variables, punctuation, docblocks and attributes.
+ */
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    let line = 0;
+    let inPhp = false;
+
+    const advanceTo = (end: number) => {
+        for (let k = i; k < end && k < source.length; k++) {
+            if (source[k] === '\n') {
+                line++;
+            }
+        }
+        i = Math.min(end, source.length);
+    };
+
+    while (i < source.length) {
+        if (!inPhp) {
+            const open = source.indexOf('<?', i);
+            if (open === -1) {
+                break;
+            }
+            const tagLength = source.startsWith('<?php', open) ? 5 : source.startsWith('<?=', open) ? 3 : 2;
+            advanceTo(open + tagLength);
+            inPhp = true;
+            continue;
+        }
+
+        const char = source[i];
+        const rest = (length: number) => source.substr(i, length);
+
+        if (char === '\n') {
+            line++;
+            i++;
+            continue;
+        }
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        if (rest(2) === '?>') {
+            inPhp = false;
+            i += 2;
+            continue;
+        }
+
+        // Attributes
+        if (rest(2) === '#[') {
+            const start = i;
+            const startLine = line;
+            const end = findAttributeEnd(source, i + 2);
+            advanceTo(end + 1);
+            tokens.push({ type: 'attribute', value: source.substring(start + 2, end), line: startLine });
+            continue;
+        }
+
+        // Line comments
+        if (char === '#' || rest(2) === '//') {
+            let end = source.indexOf('\n', i);
+            const close = source.indexOf('?>', i);
+            if (end === -1) {
+                end = source.length;
+            }
+            if (close !== -1 && close < end) {
+                end = close;
+            }
+            i = end;
+            continue;
+        }
+
+        // Block comments and docblocks
+        if (rest(2) === '/*') {
+            const start = i;
+            const startLine = line;
+            let end = source.indexOf('*/', i + 2);
+            end = end === -1 ? source.length : end + 2;
+            advanceTo(end);
+            if (source.startsWith('/**', start) && end - start > 4) {
+                tokens.push({ type: 'docblock', value: source.substring(start, end), line: startLine });
+            }
+            continue;
+        }
+
+        // Heredoc / nowdoc
+        if (rest(3) === '<<<') {
+            const header = /^<<<[ \t]*(["']?)(\w+)\1\r?\n/.exec(source.substring(i, i + 200));
+            if (header) {
+                const terminator = new RegExp(`\\n[ \\t]*${header[2]}\\b`, 'g');
+                terminator.lastIndex = i + header[0].length - 1;
+                const match = terminator.exec(source);
+                const startLine = line;
+                advanceTo(match ? match.index + match[0].length : source.length);
+                tokens.push({ type: 'string', value: '', line: startLine });
+                continue;
+            }
+        }
+
+        // Quoted strings
+        if (char === '\'' || char === '"' || char === '`') {
+            const startLine = line;
+            let end = i + 1;
+            while (end < source.length && source[end] !== char) {
+                end += source[end] === '\\' ? 2 : 1;
+            }
+            advanceTo(end + 1);
+            tokens.push({ type: 'string', value: '', line: startLine });
+            continue;
+        }
+
+        // Variables
+        if (char === '$' && /[A-Za-z_\x80-\uffff]/.test(source[i + 1] ?? '')) {
+            const match = /^\$[\w\x80-\uffff]+/.exec(source.substring(i, i + 256));
+            tokens.push({ type: 'variable', value: match![0], line });
+            i += match![0].length;
+            continue;
+        }
+
+        // Names, including qualified names like \PHPUnit\Framework\TestCase
+        const name = /^\\?[A-Za-z_\x80-\uffff][\w\x80-\uffff]*(?:\\[A-Za-z_\x80-\uffff][\w\x80-\uffff]*)*/.exec(source.substring(i, i + 512));
+        if (name) {
+            tokens.push({ type: 'name', value: name[0], line });
+            i += name[0].length;
+            continue;
+        }
+
+        const number = /^\d[\w.]*/.exec(source.substring(i, i + 64));
+        if (number) {
+            tokens.push({ type: 'number', value: number[0], line });
+            i += number[0].length;
+            continue;
+        }
+
+        const punct = ['?->', '::', '->'].find(p => rest(p.length) === p) ?? char;
+        tokens.push({ type: 'punct', value: punct, line });
+        i += punct.length;
+    }
+
+    return tokens;
+}
+
+/**
+ * Index of the `]` closing an attribute group, honoring nested brackets and strings
+ */
+function findAttributeEnd(source: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < source.length; i++) {
+        const char = source[i];
+        if (char === '\'' || char === '"') {
+            i++;
+            while (i < source.length && source[i] !== char) {
+                i += source[i] === '\\' ? 2 : 1;
+            }
+        } else if (char === '[' || char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+        } else if (char === ']') {
+            if (depth === 0) {
+                return i;
+            }
+            depth--;
+        }
+    }
+    return source.length;
+}
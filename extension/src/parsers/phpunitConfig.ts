@@ -0,0 +1,154 @@
+/**
+ * PHPUnit XML configuration parser (phpunit.xml / phpunit.xml.dist)
+ *
+ * Only the parts that decide which tests exist are read: the bootstrap
+ * script and the <testsuites> with their directories, files and excludes.
+ * Batches of files get a copy of the configuration with its own test suite.
+ */
+
+import * as path from 'path';
+import { parseXml, findElements, childElements, decodeEntities, escapeXml } from '../utils/xml';
+
+/** Configuration file names PHPUnit picks up by itself, in its order of preference */
+export const PHPUNIT_CONFIG_FILES = ['phpunit.xml', 'phpunit.xml.dist', 'phpunit.dist.xml'];
+
+/** Attributes whose value is a path relative to the configuration file */
+const PATH_ATTRIBUTES = new Set([
+    'bootstrap', 'cacheDirectory', 'cacheResultFile', 'extensionsDirectory', 'testSuiteLoaderFile', 'printerFile',
+    'outputFile', 'outputDirectory', 'file', 'xsi:noNamespaceSchemaLocation'
+]);
+
+/** Elements whose text is a path relative to the configuration file */
+const PATH_ELEMENTS = ['directory', 'file', 'exclude', 'includePath'];
+
+export interface TestSuiteDirectory {
+    /** Absolute path */
+    path: string;
+    prefix: string;
+    suffix: string;
+}
+
+export interface PhpUnitTestSuite {
+    name: string;
+    directories: TestSuiteDirectory[];
+    /** Absolute paths of individually listed test files */
+    files: string[];
+    /** Absolute paths excluded from the suite's directories */
+    excludes: string[];
+}
+
+export interface PhpUnitConfig {
+    /** Absolute path of the configuration file */
+    path: string;
+    bootstrap?: string;
+    testSuites: PhpUnitTestSuite[];
+}
+
+export function parsePhpUnitConfig(content: string, configPath: string): PhpUnitConfig {
+    const baseDir = path.dirname(configPath);
+    const resolve = (value: string) => path.resolve(baseDir, value.trim());
+    const root = parseXml(content);
+
+    const config: PhpUnitConfig = { path: configPath, testSuites: [] };
+    if (!root || root.name !== 'phpunit') {
+        return config;
+    }
+
+    if (root.attributes['bootstrap']) {
+        config.bootstrap = resolve(root.attributes['bootstrap']);
+    }
+
+    for (const suite of findElements(root, 'testsuite')) {
+        config.testSuites.push({
+            name: suite.attributes['name'] ?? path.basename(configPath),
+            directories: childElements(suite, 'directory')
+                .filter(dir => dir.text.trim())
+                .map(dir => ({
+                    path: resolve(dir.text),
+                    prefix: dir.attributes['prefix'] ?? '',
+                    suffix: dir.attributes['suffix'] ?? 'Test.php'
+                })),
+            files: childElements(suite, 'file').filter(file => file.text.trim()).map(file => resolve(file.text)),
+            excludes: childElements(suite, 'exclude').filter(exclude => exclude.text.trim()).map(exclude => resolve(exclude.text))
+        });
+    }
+
+    return config;
+}
+
+/**
+ * A copy of a configuration that runs exactly the given test files. Only its
+ * <testsuites> are replaced (and `defaultTestSuite` dropped); `<php>`, `<source>`,
+ * `<coverage>`, `<extensions>` and the `<phpunit>` attributes stay as they are.
+ * Relative paths are resolved against the original's directory and passed
+ * through `toPath`, so the copy can live anywhere.
+ */
+export function createBatchConfiguration(
+    content: string,
+    configPath: string,
+    files: string[],
+    toPath: (absolutePath: string) => string
+): string {
+    const baseDir = path.dirname(configPath);
+    const rebase = (value: string) => {
+        const decoded = decodeEntities(value).trim();
+        // Schema locations may be URLs
+        return /^[a-z][\w+.-]+:\/\//i.test(decoded) ? value : escapeXml(toPath(path.resolve(baseDir, decoded)));
+    };
+    const testSuites = [
+        '<testsuites>',
+        '        <testsuite name="plugin-tests">',
+        ...files.map(file => `            <file>${escapeXml(file)}</file>`),
+        '        </testsuite>',
+        '    </testsuites>'
+    ].join('\n');
+
+    // The new test suite takes the place of the old one once the other paths are rebased
+    const placeholder = '<!--plugin-tests:testsuites-->';
+    const oldTestSuites = /<testsuites\b[\s\S]*?<\/testsuites\s*>|<testsuites\b[^>]*\/>/;
+    let batch = content
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<phpunit\b([^<>]*?)\/>/, '<phpunit$1>\n</phpunit>');
+    batch = oldTestSuites.test(batch)
+        ? batch.replace(oldTestSuites, placeholder)
+        : batch.replace(/<\/phpunit\s*>/, `    ${placeholder}\n</phpunit>`);
+
+    batch = batch.replace(/<([\w:.-]+)(\s[^<>]*?)(\/?)>/g, (_tag, name: string, attributes: string, selfClosing: string) => {
+        const rebased = attributes
+            .replace(/\sdefaultTestSuite\s*=\s*(?:"[^"]*"|'[^']*')/, '')
+            .replace(/(\s)([\w:.-]+)(\s*=\s*)(?:"([^"]*)"|'([^']*)')/g, (attribute, space: string, attributeName: string, equals: string, double?: string, single?: string) => {
+                const value = double ?? single ?? '';
+                return PATH_ATTRIBUTES.has(attributeName) && value.trim() ? `${space}${attributeName}${equals}"${rebase(value)}"` : attribute;
+            });
+        return `<${name}${rebased}${selfClosing}>`;
+    });
+
+    const elements = new RegExp(`<(${PATH_ELEMENTS.join('|')})(\\s[^<>]*)?>([^<]*)</\\1\\s*>`, 'g');
+    batch = batch.replace(elements, (element, name: string, attributes: string | undefined, value: string) =>
+        value.trim() ? `<${name}${attributes ?? ''}>${rebase(value)}</${name}>` : element
+    );
+    return batch.replace(placeholder, () => testSuites);
+}
+
+/**
+ * Whether a file belongs to a test suite according to its directories, files and excludes
+ */
+export function isInTestSuite(suite: PhpUnitTestSuite, filePath: string): boolean {
+    const resolved = path.resolve(filePath);
+    if (suite.files.some(file => path.resolve(file) === resolved)) {
+        return true;
+    }
+    if (suite.excludes.some(exclude => isWithin(exclude, resolved))) {
+        return false;
+    }
+
+    const fileName = path.basename(resolved);
+    return suite.directories.some(dir =>
+        isWithin(dir.path, resolved) && fileName.startsWith(dir.prefix) && fileName.endsWith(dir.suffix)
+    );
+}
+
+function isWithin(parent: string, child: string): boolean {
+    const relative = path.relative(parent, child);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
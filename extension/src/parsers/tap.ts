@@ -0,0 +1,144 @@
+/**
+ * BATS TAP output parser (`--formatter tap --timing`)
+ */
+
+export interface TapResult {
+    ok: boolean;
+    /** Test number within the run */
+    number: number;
+    name: string;
+    /** Duration in milliseconds, when run with --timing */
+    duration?: number;
+    /** Skipped with `skip`; the result is `ok` */
+    skipped: boolean;
+    /** Reason given to `skip`, if any */
+    skipReason?: string;
+    /** `#` diagnostic lines following the result, without the `# ` prefix */
+    diagnostics: string[];
+}
+
+export interface BatsFailure {
+    /** Human readable failure text (the assertion output) */
+    message: string;
+    /** Test file as reported by BATS (relative to the working directory) */
+    file?: string;
+    /** One-based line of the failing command in the test file */
+    line?: number;
+    expected?: string;
+    actual?: string;
+}
+
+/**
+ * Split TAP output into per-test results with their diagnostics. A skipped test
+ * reads `ok 3 name # skip (reason)`, the timing going before or after the directive.
+ */
+export function parseTapOutput(output: string): TapResult[] {
+    const results: TapResult[] = [];
+    const resultRegex = /^(ok|not ok)\s+(\d+)\s+(.+)$/;
+    const skipRegex = /\s+#\s*skip\b\s*(.*)$/i;
+    const timingRegex = /\s+in\s+(\d+)(ms|sec)$/;
+    let current: TapResult | undefined;
+
+    for (const raw of output.split('\n')) {
+        const line = raw.replace(/\r$/, '');
+        const match = resultRegex.exec(line.trim());
+        if (match) {
+            let name = match[3];
+            let duration: number | undefined;
+            const readTiming = () => {
+                const timing = timingRegex.exec(name);
+                if (timing) {
+                    duration = parseInt(timing[1], 10) * (timing[2] === 'sec' ? 1000 : 1);
+                    name = name.substring(0, timing.index);
+                }
+            };
+
+            readTiming();
+            const skip = skipRegex.exec(name);
+            if (skip) {
+                name = name.substring(0, skip.index);
+                readTiming();
+            }
+            const reason = skip?.[1].replace(/\s+in\s+\d+(?:ms|sec)$/, '').replace(/^\((.*)\)$/, '$1').trim();
+
+            current = {
+                ok: match[1] === 'ok',
+                number: parseInt(match[2], 10),
+                name,
+                duration,
+                skipped: skip !== null,
+                skipReason: reason || undefined,
+                diagnostics: []
+            };
+            results.push(current);
+            continue;
+        }
+
+        if (current && line.startsWith('#')) {
+            current.diagnostics.push(line.replace(/^# ?/, ''));
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Interpret the diagnostic block of a failed test: the failing location
+ * BATS reports, the failed command, and the output of our assert_* helpers.
+ */
+export function parseBatsFailure(diagnostics: string[]): BatsFailure {
+    const text = diagnostics.join('\n');
+    const failure: BatsFailure = { message: text.trim() || 'Test failed' };
+
+    // "(in test file tests/foo.bats, line 12)" or, from a helper, "...\n#  in test file tests/foo.bats, line 12)"
+    const location = /in test file (.+?), line (\d+)\)/.exec(text);
+    if (location) {
+        failure.file = location[1];
+        failure.line = parseInt(location[2], 10);
+    }
+
+    // Drop the location preamble (and any --trace lines) so the message starts with the failed command
+    const body = diagnostics.filter(line => !/^\s*\(?(?:from function|in test file) |^\$+ /.test(line));
+    if (body.some(line => line.trim())) {
+        failure.message = body.join('\n').trim();
+    }
+
+    const comparison = extractExpectedActual(body);
+    if (comparison) {
+        failure.expected = comparison.expected;
+        failure.actual = comparison.actual;
+    }
+
+    return failure;
+}
+
+/**
+ * Pick the expected/actual values out of assert_* output, e.g.
+ * "Expected output to contain: foo" followed by "Actual output: bar".
+ * An empty "Actual calls:" line takes the lines that follow it as the value.
+ */
+function extractExpectedActual(lines: string[]): { expected: string; actual: string } | undefined {
+    let expected: string | undefined;
+    let actual: string | undefined;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        const expectedMatch = /^Expected [^:]*: (.*)$/.exec(line);
+        if (expectedMatch && expected === undefined) {
+            expected = expectedMatch[1];
+            continue;
+        }
+
+        const actualMatch = /^Actual [^:]*:\s?(.*)$/.exec(line);
+        if (actualMatch && expected !== undefined) {
+            const rest = lines.slice(i + 1).map(l => l.trim());
+            actual = actualMatch[1] !== '' ? [actualMatch[1], ...rest].join('\n') : rest.join('\n');
+            break;
+        }
+    }
+
+    if (expected === undefined || actual === undefined) {
+        return undefined;
+    }
+    return { expected, actual: actual.trim() };
+}
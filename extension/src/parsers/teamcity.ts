@@ -0,0 +1,118 @@
+/**
+ * PHPUnit TeamCity log parser (`--log-teamcity`)
+ *
+ * Unlike the JUnit report, which is only written when the run completes, the
+ * TeamCity log is appended as each test starts and finishes. It tells which
+ * test is running right now and still holds the finished results when a run
+ * has to be killed.
+ */
+
+import { JUnitTestCase, StackFrame } from './junit';
+
+export interface TeamCityMessage {
+    /** Message type, e.g. `testStarted` */
+    type: string;
+    attributes: Record<string, string>;
+}
+
+export interface TeamCityProgress {
+    /** Tests that finished, in the shape of JUnit results */
+    finished: JUnitTestCase[];
+    /** The test that started and hasn't finished yet */
+    running?: { className: string; name: string };
+}
+
+export function parseTeamCityMessages(content: string): TeamCityMessage[] {
+    const messages: TeamCityMessage[] = [];
+    const messageRegex = /^##teamcity\[(\w+)((?:\s+\w+='(?:[^'|]|\|.)*')*)\s*\]\s*$/;
+    const attributeRegex = /(\w+)='((?:[^'|]|\|.)*)'/g;
+
+    for (const line of content.split('\n')) {
+        const match = messageRegex.exec(line.trim());
+        if (!match) {
+            continue;
+        }
+        const attributes: Record<string, string> = {};
+        let attribute: RegExpExecArray | null;
+        while ((attribute = attributeRegex.exec(match[2])) !== null) {
+            attributes[attribute[1]] = unescapeValue(attribute[2]);
+        }
+        messages.push({ type: match[1], attributes });
+    }
+
+    return messages;
+}
+
+/**
+ * Follow the test events in a (possibly incomplete) log
+ */
+export function parseTeamCityProgress(content: string): TeamCityProgress {
+    const finished: JUnitTestCase[] = [];
+    let current: JUnitTestCase | undefined;
+
+    for (const message of parseTeamCityMessages(content)) {
+        const { type, attributes } = message;
+        if (type === 'testStarted') {
+            const location = parseLocationHint(attributes['locationHint'] ?? '');
+            current = {
+                name: attributes['name'] ?? location?.name ?? '',
+                className: location?.className ?? '',
+                file: location?.file,
+                duration: 0,
+                outcome: 'passed',
+                stack: []
+            };
+        } else if (current && type === 'testFailed') {
+            current.outcome = 'failed';
+            current.message = attributes['message'];
+            current.stack = parseStack(attributes['details'] ?? '');
+        } else if (current && type === 'testIgnored') {
+            current.outcome = 'skipped';
+            current.message = attributes['message'];
+        } else if (current && type === 'testFinished') {
+            current.duration = parseInt(attributes['duration'] ?? '0', 10) || 0;
+            finished.push(current);
+            current = undefined;
+        }
+    }
+
+    return {
+        finished,
+        running: current ? { className: current.className, name: current.name } : undefined
+    };
+}
+
+/**
+ * `php_qn:///path/FooTest.php::\Vendor\FooTest::testBar` -> file, class and test name
+ */
+function parseLocationHint(hint: string): { file: string; className: string; name: string } | undefined {
+    const match = /^php_qn:\/\/(.+?)::\\?([^:]+)::(.+)$/.exec(hint);
+    if (!match) {
+        return undefined;
+    }
+    return { file: match[1], className: match[2], name: match[3] };
+}
+
+function parseStack(details: string): StackFrame[] {
+    const stack: StackFrame[] = [];
+    for (const line of details.split('\n')) {
+        const frame = /^\s*(.+):(\d+)\s*$/.exec(line);
+        if (frame && /[\\/]/.test(frame[1])) {
+            stack.push({ file: frame[1], line: parseInt(frame[2], 10) });
+        }
+    }
+    return stack;
+}
+
+function unescapeValue(value: string): string {
+    return value.replace(/\|(0x[0-9a-fA-F]{4}|.)/g, (_match, escaped: string) => {
+        switch (escaped) {
+            case 'n': return '\n';
+            case 'r': return '\r';
+            case 'l': return '\u0085';
+            case 'p': return ' ';
+            default:
+                return escaped.startsWith('0x') ? String.fromCharCode(parseInt(escaped.substring(2), 16)) : escaped;
+        }
+    });
+}
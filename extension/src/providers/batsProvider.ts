@@ -7,37 +7,146 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as fs from 'fs';
 import { spawn, SpawnOptions } from 'child_process';
 import { Logger } from '../utils/logger';
-import { getWorkspaceFolder, getRelativeToWorkspaceFolder, toDockerPath, isDockerAvailable } from '../utils/paths';
+import { getWorkspaceFolder, getRelativeToWorkspaceFolder, toDockerPath, toHostPath } from '../utils/paths';
+import { ContainerSpec, DockerContainerPool } from '../utils/dockerPool';
+import { TapResult, parseTapOutput, parseBatsFailure } from '../parsers/tap';
+import { BatsHook, parseBatsFile } from '../parsers/bats';
+import { extractBashDependencies } from '../parsers/dependencies';
+import { escapeExtendedRegExp } from '../utils/regex';
+import { getRequestedTests, groupByWorkspaceFolder } from '../utils/testItems';
+import { TestWatchdog, resolveTimeout, formatTimeoutMessage } from '../utils/timeouts';
+import { ContinuousRunner } from '../utils/continuousRun';
+import { TestHistory, withoutHistoryTags } from '../utils/testHistory';
+import { DependencyIndex } from '../utils/dependencyIndex';
+import { TestFileFinder } from '../utils/testFiles';
+import { TestTree } from '../utils/testTree';
+import { TagFilter, getTagProfiles, toTagFilter, matchesTags, toTestTags } from '../utils/tags';
+import { MockCall, parseMockCalls, formatMockCall } from '../parsers/mockCalls';
+import {
+    MockRun,
+    DOCKER_MOCK_DIR,
+    createMockStore,
+    createMockRun,
+    getMockEnv,
+    getDockerMockEnvArgs,
+    readMockCalls,
+    disposeMockRun,
+    disposeMockStore
+} from '../utils/mockCalls';
+import {
+    TraceSession,
+    TraceLine,
+    createTraceSession,
+    resetTraceLog,
+    readTraceLog,
+    disposeTraceSession,
+    getTraceEnv,
+    getDockerTraceArgs,
+    parseScriptTrace,
+    parseBatsTrace,
+    resolveTracePath
+} from '../utils/bashTrace';
+
+interface RunOptions {
+    /** Trace the run with bash tracing (debug profile) */
+    trace?: TraceSession;
+    /** Only run tests matching these tags (tag profiles) */
+    tags?: TagFilter;
+}
+
+/** How a batch is launched: natively or through Docker */
+interface BatsCommand {
+    command: string;
+    args: string[];
+    options: SpawnOptions;
+    /** Where the workspace folder is mounted, for runs in a container */
+    containerRoot?: string;
+    /** Clean up after the process had to be killed */
+    onKilled?: () => void;
+}
 
-interface TestCase {
-    name: string;
-    line: number;
+interface TimedOut {
+    /** The test that was running, if known */
+    test?: vscode.TestItem;
+    timeout: number;
 }
 
 export class BatsTestProvider implements vscode.Disposable {
     private controller: vscode.TestController;
     private logger: Logger;
     private disposables: vscode.Disposable[] = [];
+    /** Test file watchers, rebuilt when the patterns or workspace folders change */
+    private watchers: vscode.Disposable[] = [];
+    private files: TestFileFinder;
+    private tree: TestTree;
+    /** File items by path */
+    private fileItems = new Map<string, vscode.TestItem>();
+    private containers: DockerContainerPool;
+    private runProfile: vscode.TestRunProfile;
+    /** Profiles from `pluginTests.tagProfiles`, rebuilt when the setting changes */
+    private tagProfiles: vscode.TestRunProfile[] = [];
+    private continuous: ContinuousRunner;
+    /** Outcomes and durations of earlier runs, for flaky test detection */
+    readonly history: TestHistory;
+    private dependencies: DependencyIndex;
+    /** Declared timeouts of file and test items */
+    private timeouts = new WeakMap<vscode.TestItem, number>();
+    /** Where the hooks of a file item are defined, in the file or a helper it loads */
+    private hooks = new WeakMap<vscode.TestItem, Map<BatsHook, vscode.Location>>();
+    /** Host directory holding each run's mock log and mock calls */
+    private mockStore: string;
 
     constructor(context: vscode.ExtensionContext, logger: Logger) {
         this.logger = logger;
+        this.containers = new DockerContainerPool('bats', logger);
+        this.mockStore = createMockStore();
         this.controller = vscode.tests.createTestController('pluginTests.bats', 'BATS Tests');
+        this.tree = new TestTree(this.controller);
+        this.dependencies = new DependencyIndex(extractBashDependencies, logger);
+        this.files = new TestFileFinder('bats', '**/*.bats', '**/node_modules/**');
+        this.continuous = new ContinuousRunner(this.controller, logger, uri => this.getAffectedTests(uri));
+        this.history = new TestHistory(context, this.controller, 'bats', logger);
         
         // Set up the controller
         this.controller.resolveHandler = this.resolveHandler.bind(this);
         this.controller.refreshHandler = this.refreshHandler.bind(this);
 
         // Create run profile
-        const runProfile = this.controller.createRunProfile(
+        this.runProfile = this.controller.createRunProfile(
             'Run BATS Tests',
             vscode.TestRunProfileKind.Run,
             this.runHandler.bind(this),
+            true,
+            undefined,
             true
         );
 
-        this.disposables.push(this.controller, runProfile);
+        // Debug profile re-runs each test with bash tracing
+        const debugProfile = this.controller.createRunProfile(
+            'Debug BATS Tests (Trace)',
+            vscode.TestRunProfileKind.Debug,
+            this.debugHandler.bind(this),
+            true
+        );
+        this.setupTagProfiles();
+
+        this.disposables.push(
+            this.controller,
+            this.runProfile,
+            debugProfile,
+            this.containers,
+            this.continuous,
+            this.history,
+            this.dependencies,
+            this.files,
+            vscode.commands.registerCommand('pluginTests.bats.restartContainer', () => this.restartContainers()),
+            vscode.workspace.onDidChangeConfiguration(e => this.onConfigurationChanged(e)),
+            this.files.onDidChangeIgnoreFiles(() => this.reload()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload())
+        );
 
         // Watch for file changes
         this.setupFileWatchers();
@@ -48,65 +157,98 @@ export class BatsTestProvider implements vscode.Disposable {
         });
     }
 
+    /**
+     * Watch the test files of each enabled workspace folder, with that folder's patterns
+     */
     private setupFileWatchers(): void {
-        const pattern = this.getTestPattern();
-        const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers = [];
 
-        watcher.onDidCreate(uri => this.onTestFileCreated(uri).catch(e => this.logger.error('File watcher create error', e)));
-        watcher.onDidChange(uri => this.onTestFileChanged(uri).catch(e => this.logger.error('File watcher change error', e)));
-        watcher.onDidDelete(uri => this.onTestFileDeleted(uri));
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            if (!this.isAllowedWorkspaceFolder(folder.uri)) {
+                continue;
+            }
 
-        this.disposables.push(watcher);
+            for (const include of this.files.getPatterns(folder).include) {
+                const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, include));
+                watcher.onDidCreate(uri => this.onTestFileCreated(uri).catch(e => this.logger.error('File watcher create error', e)));
+                watcher.onDidChange(uri => this.onTestFileChanged(uri).catch(e => this.logger.error('File watcher change error', e)));
+                watcher.onDidDelete(uri => this.onTestFileDeleted(uri));
+                this.watchers.push(watcher);
+            }
+        }
     }
 
-    private getTestPattern(): string {
-        return vscode.workspace.getConfiguration('pluginTests').get<string>('bats.pattern', '**/*.bats');
+    /**
+     * A run profile per `pluginTests.tagProfiles` entry, running only the tests matching its tags
+     */
+    private setupTagProfiles(): void {
+        this.tagProfiles.forEach(profile => profile.dispose());
+        this.tagProfiles = getTagProfiles().map(profile => this.controller.createRunProfile(
+            profile.name,
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.runHandler(request, token, toTagFilter(profile)),
+            false
+        ));
     }
 
-    private getExcludePattern(): string {
-        return vscode.workspace.getConfiguration('pluginTests').get<string>('bats.exclude', '**/node_modules/**');
+    private onConfigurationChanged(e: vscode.ConfigurationChangeEvent): void {
+        if (e.affectsConfiguration('pluginTests.tagProfiles')) {
+            this.setupTagProfiles();
+        }
+
+        // Containers are tied to the image (and Docker being wanted at all)
+        if (e.affectsConfiguration('pluginTests.bats.dockerImage') || e.affectsConfiguration('pluginTests.bats.useDocker')) {
+            this.containers.clear().catch(error => this.logger.error('Failed to remove BATS containers', error));
+        }
+
+        const discoverySettings = ['workspaceFolders', 'bats.enabled', 'bats.pattern', 'bats.exclude', 'useGitignore', 'useFilesExclude'];
+        if (discoverySettings.some(setting => e.affectsConfiguration(`pluginTests.${setting}`)) || e.affectsConfiguration('files.exclude')) {
+            this.logger.info('BATS discovery settings changed');
+            this.reload();
+        }
+    }
+
+    /**
+     * Start over with watchers and tests for the current settings and workspace folders
+     */
+    private reload(): void {
+        this.setupFileWatchers();
+        this.refreshHandler().catch(error => this.logger.error('Failed to reload BATS tests', error));
     }
 
     private getAllowedWorkspaceFolders(): string[] {
         return vscode.workspace.getConfiguration('pluginTests').get<string[]>('workspaceFolders', []);
     }
 
+    /**
+     * Whether BATS tests are discovered in the workspace folder of `uri`: listed in
+     * `pluginTests.workspaceFolders` (when set) and not disabled for that folder
+     */
     private isAllowedWorkspaceFolder(uri: vscode.Uri): boolean {
-        const allowed = this.getAllowedWorkspaceFolders();
-        if (allowed.length === 0) {
-            return true; // No filter = allow all
-        }
         const folder = getWorkspaceFolder(uri);
-        return folder ? allowed.includes(folder.name) : false;
+        if (!folder || !vscode.workspace.getConfiguration('pluginTests', folder.uri).get<boolean>('bats.enabled', true)) {
+            return false;
+        }
+        const allowed = this.getAllowedWorkspaceFolders();
+        return allowed.length === 0 || allowed.includes(folder.name);
     }
 
     private async discoverTests(): Promise<void> {
         this.logger.info('Discovering BATS tests...');
-        const pattern = this.getTestPattern();
-        const excludePatterns = this.getExcludePattern().split(',').map(p => p.trim()).filter(p => p);
-        
-        // findFiles only takes one exclude pattern, so we'll use the first one and filter the rest
-        const primaryExclude = excludePatterns[0] || '**/node_modules/**';
-        const files = await vscode.workspace.findFiles(pattern, primaryExclude);
-        
-        // Apply additional exclude patterns manually
-        let filteredFiles = files;
-        for (const excludePattern of excludePatterns.slice(1)) {
-            filteredFiles = filteredFiles.filter(f => {
-                const relativePath = vscode.workspace.asRelativePath(f);
-                // Simple glob matching for **/ patterns
-                const pattern = excludePattern.replace(/\*\*/g, '.*').replace(/\*/g, '[^/]*');
-                const regex = new RegExp(pattern);
-                return !regex.test(relativePath);
-            });
+
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            if (this.isAllowedWorkspaceFolder(folder.uri)) {
+                await this.discoverFolderTests(folder);
+            }
         }
-        
-        // Filter by allowed workspace folders
-        filteredFiles = filteredFiles.filter(f => this.isAllowedWorkspaceFolder(f));
-        
-        this.logger.info(`Found ${filteredFiles.length} BATS test files (${files.length} before filtering)`);
-        
-        for (const file of filteredFiles) {
+    }
+
+    private async discoverFolderTests(folder: vscode.WorkspaceFolder): Promise<void> {
+        const files = await this.files.findFiles(folder);
+        this.logger.info(`Found ${files.length} BATS test files in ${folder.name}`);
+
+        for (const file of files) {
             await this.createTestItem(file);
         }
     }
@@ -125,10 +267,9 @@ export class BatsTestProvider implements vscode.Disposable {
         const testItem = this.controller.createTestItem(id, label, uri);
         testItem.canResolveChildren = true;
         
-        // Store workspace folder for later use
-        testItem.description = workspaceFolder.name;
-        
-        this.controller.items.add(testItem);
+        this.tree.addFile(testItem, workspaceFolder);
+        this.fileItems.set(id, testItem);
+        this.dependencies.update(uri);
         this.logger.debug(`Added test file: ${label} (${workspaceFolder.name})`);
         
         return testItem;
@@ -146,9 +287,9 @@ export class BatsTestProvider implements vscode.Disposable {
                 return;
             }
 
-            // Only parse file-level items (no :: in ID)
-            if (item.id.includes('::')) {
-                return; // Already a child item, don't re-resolve
+            // Only parse file-level items, not folders, directories or test cases
+            if (this.fileItems.get(item.id) !== item) {
+                return;
             }
 
             // Skip if already has children
@@ -163,12 +304,14 @@ export class BatsTestProvider implements vscode.Disposable {
         }
     }
 
-    private async refreshHandler(token: vscode.CancellationToken): Promise<void> {
+    private async refreshHandler(): Promise<void> {
         try {
             this.logger.info('Refreshing BATS tests...');
             
             // Clear existing items
             this.controller.items.replace([]);
+            this.fileItems.clear();
+            this.dependencies.clear();
             
             // Re-discover
             await this.discoverTests();
@@ -185,163 +328,459 @@ export class BatsTestProvider implements vscode.Disposable {
         try {
             const document = await vscode.workspace.openTextDocument(fileItem.uri);
             const content = document.getText();
-            const tests = this.extractTestCases(content);
+            const parsed = parseBatsFile(content);
 
             // Clear existing children
             fileItem.children.replace([]);
-
-            for (const test of tests) {
-                const testId = `${fileItem.id}::${test.name}`;
+            fileItem.tags = toTestTags(parsed.tags);
+            this.setTimeout(fileItem, parsed.timeout);
+            this.hooks.set(fileItem, await this.findHooks(fileItem.uri, content));
+
+            // Same-named tests can't be told apart by bats' filter or TAP output, only by position
+            const names = parsed.tests.map(test => test.name);
+            const seen = new Map<string, number>();
+            for (const test of parsed.tests) {
+                const occurrence = (seen.get(test.name) ?? 0) + 1;
+                seen.set(test.name, occurrence);
+
+                const testId = occurrence === 1 ? `${fileItem.id}::${test.name}` : `${fileItem.id}::${test.name}::${occurrence}`;
                 const testItem = this.controller.createTestItem(testId, test.name, fileItem.uri);
                 testItem.range = new vscode.Range(test.line, 0, test.line, 0);
+                testItem.tags = toTestTags([...parsed.tags, ...test.tags]);
+                if (names.indexOf(test.name) !== names.lastIndexOf(test.name)) {
+                    testItem.description = 'duplicate name';
+                }
+                this.setTimeout(testItem, test.timeout);
                 fileItem.children.add(testItem);
             }
 
-            this.logger.debug(`Parsed ${tests.length} tests from ${path.basename(fileItem.uri.fsPath)}`);
+            this.history.decorate([fileItem]);
+            this.logger.debug(`Parsed ${parsed.tests.length} tests from ${path.basename(fileItem.uri.fsPath)}`);
         } catch (error) {
             this.logger.error(`Failed to parse test file: ${fileItem.uri.fsPath}`, error);
         }
     }
 
-    private extractTestCases(content: string): TestCase[] {
-        const tests: TestCase[] = [];
-        const lines = content.split('\n');
-        
-        // Match @test "test name" { or @test 'test name' {
-        const testRegex = /@test\s+["'](.+?)["']\s*\{/;
-
-        for (let i = 0; i < lines.length; i++) {
-            const match = testRegex.exec(lines[i]);
-            if (match) {
-                tests.push({
-                    name: match[1],
-                    line: i
-                });
+    /**
+     * Locate the hooks a test file runs: its own, or those of the helpers it `load`s
+     * (and they load in turn). The test file's own definitions win.
+     */
+    private async findHooks(uri: vscode.Uri, content: string): Promise<Map<BatsHook, vscode.Location>> {
+        const hooks = new Map<BatsHook, vscode.Location>();
+        const workspaceRoot = getWorkspaceFolder(uri)?.uri.fsPath ?? path.dirname(uri.fsPath);
+        const visited = new Set<string>([uri.fsPath]);
+
+        const visit = async (filePath: string, fileContent: string) => {
+            const helpers = extractBashDependencies(fileContent, filePath, workspaceRoot).paths
+                .filter(reference => reference.included)
+                .map(reference => reference.candidates.find(candidate => fs.existsSync(candidate)))
+                .filter((helper): helper is string => helper !== undefined && !visited.has(helper));
+
+            for (const helper of helpers) {
+                visited.add(helper);
+                const helperContent = await fs.promises.readFile(helper, 'utf8');
+                for (const [hook, line] of Object.entries(parseBatsFile(helperContent).hooks)) {
+                    hooks.set(hook as BatsHook, new vscode.Location(vscode.Uri.file(helper), new vscode.Position(line, 0)));
+                }
+                await visit(helper, helperContent);
             }
+        };
+
+        try {
+            await visit(uri.fsPath, content);
+        } catch (error) {
+            this.logger.warn(`Failed to read helpers of ${uri.fsPath}`, error);
+        }
+        for (const [hook, line] of Object.entries(parseBatsFile(content).hooks)) {
+            hooks.set(hook as BatsHook, new vscode.Location(uri, new vscode.Position(line, 0)));
         }
+        return hooks;
+    }
 
-        return tests;
+    private setTimeout(item: vscode.TestItem, timeout: number | undefined): void {
+        if (timeout !== undefined) {
+            this.timeouts.set(item, timeout);
+        } else {
+            this.timeouts.delete(item);
+        }
     }
 
     private async runHandler(
+        request: vscode.TestRunRequest,
+        token: vscode.CancellationToken,
+        tags?: TagFilter
+    ): Promise<void> {
+        if (request.continuous) {
+            return this.continuous.watch(request, token);
+        }
+        await this.runRequest(request, token, tags);
+    }
+
+    /**
+     * Run a request once. Returns false when the run was cancelled, either through
+     * `token` or the run's own Stop button.
+     */
+    private async runRequest(
+        request: vscode.TestRunRequest,
+        token: vscode.CancellationToken,
+        tags?: TagFilter
+    ): Promise<boolean> {
+        const run = this.history.track(this.continuous.track(this.controller.createTestRun(request)));
+        // Runs started by our commands can only be stopped through the run's own token
+        const cancellation = new vscode.CancellationTokenSource();
+        const listeners = [token, run.token].map(source => source.onCancellationRequested(() => cancellation.cancel()));
+        if (token.isCancellationRequested) {
+            cancellation.cancel();
+        }
+
+        try {
+            const requested = this.getRequestedItems(request);
+            const { groups, orphans } = groupByWorkspaceFolder(tags ? await this.getTaggedTests(requested, tags) : requested);
+            for (const test of orphans) {
+                run.errored(test, new vscode.TestMessage('Test file is not in a workspace folder'));
+            }
+
+            // One bats process (and container) per workspace folder
+            for (const { folder, tests } of groups) {
+                if (cancellation.token.isCancellationRequested) {
+                    tests.forEach(test => run.skipped(test));
+                    continue;
+                }
+
+                await this.runTests(run, folder, tests, cancellation.token, { tags });
+            }
+            return !cancellation.token.isCancellationRequested;
+        } finally {
+            run.end();
+            listeners.forEach(listener => listener.dispose());
+            cancellation.dispose();
+        }
+    }
+
+    private async debugHandler(
         request: vscode.TestRunRequest,
         token: vscode.CancellationToken
     ): Promise<void> {
-        const run = this.controller.createTestRun(request);
-        const testsToRun = request.include ?? this.getAllTests();
+        const run = this.history.track(this.continuous.track(this.controller.createTestRun(request)));
+        const session = createTraceSession();
 
-        for (const test of testsToRun) {
-            if (token.isCancellationRequested) {
-                run.skipped(test);
-                continue;
+        try {
+            // Trace each test on its own so every trace belongs to exactly one test
+            const testCases: vscode.TestItem[] = [];
+            for (const test of this.getRequestedItems(request)) {
+                if (this.isTestCase(test)) {
+                    testCases.push(test);
+                    continue;
+                }
+                if (test.children.size === 0 && test.canResolveChildren) {
+                    await this.parseTestFile(test);
+                }
+                test.children.forEach(child => testCases.push(child));
             }
 
-            await this.runTest(run, test, token);
+            for (const test of testCases) {
+                if (token.isCancellationRequested) {
+                    run.skipped(test);
+                    continue;
+                }
+
+                const workspaceFolder = test.uri ? getWorkspaceFolder(test.uri) : undefined;
+                if (!workspaceFolder) {
+                    run.errored(test, new vscode.TestMessage('Test file is not in a workspace folder'));
+                    continue;
+                }
+
+                resetTraceLog(session);
+                await this.runTests(run, workspaceFolder, [test], token, { trace: session });
+            }
+        } finally {
+            disposeTraceSession(session);
+            run.end();
         }
+    }
 
-        run.end();
+    /**
+     * The files and test cases a request runs, with folder and directory nodes expanded to their files
+     */
+    private getRequestedItems(request: vscode.TestRunRequest): vscode.TestItem[] {
+        const roots: vscode.TestItem[] = [];
+        this.controller.items.forEach(item => roots.push(item));
+        return this.tree.expand(getRequestedTests(request, roots));
     }
 
-    private getAllTests(): vscode.TestItem[] {
-        const tests: vscode.TestItem[] = [];
-        this.controller.items.forEach(item => tests.push(item));
-        return tests;
+    /**
+     * The test cases of the given files and tests that match a tag profile
+     */
+    private async getTaggedTests(items: vscode.TestItem[], tags: TagFilter): Promise<vscode.TestItem[]> {
+        const testCases: vscode.TestItem[] = [];
+        for (const item of items) {
+            if (this.isTestCase(item)) {
+                testCases.push(item);
+                continue;
+            }
+            if (item.children.size === 0 && item.canResolveChildren) {
+                await this.parseTestFile(item);
+            }
+            item.children.forEach(child => testCases.push(child));
+        }
+        return testCases.filter(test => matchesTags(withoutHistoryTags(test.tags), tags));
+    }
+
+    private isTestCase(item: vscode.TestItem): boolean {
+        return item.parent !== undefined && this.fileItems.get(item.parent.id) === item.parent;
     }
 
-    private async runTest(
+    /**
+     * Run a batch of files and test cases from one workspace folder in a single bats invocation
+     */
+    private async runTests(
         run: vscode.TestRun,
-        test: vscode.TestItem,
-        token: vscode.CancellationToken
+        workspaceFolder: vscode.WorkspaceFolder,
+        tests: vscode.TestItem[],
+        token: vscode.CancellationToken,
+        options: RunOptions = {}
     ): Promise<void> {
-        run.started(test);
+        const { trace, tags } = options;
+        for (const test of tests) {
+            run.started(test);
 
-        // Ensure children are resolved before running
-        if (test.children.size === 0 && test.canResolveChildren) {
-            await this.parseTestFile(test);
+            // Ensure children are resolved before running
+            if (test.children.size === 0 && test.canResolveChildren) {
+                await this.parseTestFile(test);
+            }
         }
 
-        if (!test.uri) {
-            run.errored(test, new vscode.TestMessage('Test has no associated file'));
-            return;
-        }
+        const config = vscode.workspace.getConfiguration('pluginTests', workspaceFolder.uri);
+        const useDocker = config.get<boolean>('bats.useDocker', true);
 
-        const workspaceFolder = getWorkspaceFolder(test.uri);
-        if (!workspaceFolder) {
-            run.errored(test, new vscode.TestMessage('Test file is not in a workspace folder'));
-            return;
+        // CRITICAL: Use paths relative to the workspace folder, not workspace root
+        const files = this.getTestFiles(tests);
+        const args = files.map(file => getRelativeToWorkspaceFolder(file.uri!).replace(/\\/g, '/'));
+
+        // Add formatter for parsing
+        args.push('--formatter', 'tap', '--timing');
+        if (trace) {
+            args.push('--trace', '--show-output-of-passing-tests');
         }
 
-        const config = vscode.workspace.getConfiguration('pluginTests');
-        const useDocker = config.get<boolean>('bats.useDocker', true);
-        const timeout = config.get<number>('timeout', 30000);
+        const filter = this.buildFilter(tests);
+        if (filter) {
+            args.push('--filter', filter);
+        }
+        if (tags) {
+            args.push(...this.getTagArgs(tags));
+        }
 
+        const mocks = createMockRun(this.mockStore);
         try {
-            const startTime = Date.now();
-            
-            if (useDocker && await isDockerAvailable()) {
-                await this.runTestInDocker(run, test, workspaceFolder, token);
-            } else {
-                await this.runTestNatively(run, test, workspaceFolder, token);
-            }
+            const inDocker = useDocker && await this.containers.isAvailable();
+            const batsCommand = inDocker
+                ? await this.getDockerCommand(workspaceFolder, args, mocks, trace)
+                : this.getNativeCommand(workspaceFolder, args, mocks, trace);
 
-            const duration = Date.now() - startTime;
-            
-            // If we haven't already set a state, mark as passed
-            // (The run methods will set failed/errored states)
-            
+            const expected = this.getExpectedOrder(tests, tags);
+            const stdout = await this.execute(run, workspaceFolder, tests, expected, batsCommand, token);
+
+            if (trace) {
+                this.reportTrace(run, tests[0], workspaceFolder, stdout, readTraceLog(trace), inDocker);
+            }
+            const calls = parseMockCalls(readMockCalls(mocks));
+            this.reportMockCalls(run, workspaceFolder, tests, expected, calls, batsCommand.containerRoot);
         } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
-            run.errored(test, new vscode.TestMessage(message));
+            tests.forEach(test => run.errored(test, new vscode.TestMessage(message)));
+        } finally {
+            disposeMockRun(mocks);
         }
     }
 
-    private async runTestInDocker(
-        run: vscode.TestRun,
-        test: vscode.TestItem,
+    /**
+     * The test files a batch touches, in the order they are passed to bats
+     */
+    private getTestFiles(tests: vscode.TestItem[]): vscode.TestItem[] {
+        const files: vscode.TestItem[] = [];
+        for (const test of tests) {
+            const file = this.isTestCase(test) ? test.parent! : test;
+            if (file.uri && !files.includes(file)) {
+                files.push(file);
+            }
+        }
+        return files;
+    }
+
+    /**
+     * The test cases a batch reports on: a test case itself, a file's children
+     */
+    private getRequestedCases(tests: vscode.TestItem[]): Set<vscode.TestItem> {
+        const requested = new Set<vscode.TestItem>();
+        for (const test of tests) {
+            if (this.isTestCase(test)) {
+                requested.add(test);
+            } else {
+                test.children.forEach(child => requested.add(child));
+            }
+        }
+        return requested;
+    }
+
+    /**
+     * Every test case bats will run for a batch, in run order: files in the order
+     * given to bats, each file's tests in source order. The filter also lets
+     * through same-named tests in other files, unless their tags rule them out.
+     */
+    private getExpectedOrder(tests: vscode.TestItem[], tags?: TagFilter): vscode.TestItem[] {
+        const filter = this.buildFilter(tests);
+        const names = new Set([...this.getRequestedCases(tests)].map(test => test.label));
+        const expected: vscode.TestItem[] = [];
+        for (const file of this.getTestFiles(tests)) {
+            file.children.forEach(child => {
+                if ((!filter || names.has(child.label)) && (!tags || matchesTags(withoutHistoryTags(child.tags), tags))) {
+                    expected.push(child);
+                }
+            });
+        }
+        return expected;
+    }
+
+    /**
+     * Build a `--filter` regex for the requested test cases. BATS applies it to
+     * every file in the run, so whole files contribute all their test names.
+     */
+    private buildFilter(tests: vscode.TestItem[]): string | undefined {
+        if (!tests.some(test => this.isTestCase(test))) {
+            return undefined;
+        }
+
+        const names = [...this.getRequestedCases(tests)].map(test => test.label);
+        return `^(${[...new Set(names)].map(escapeExtendedRegExp).join('|')})$`;
+    }
+
+    /**
+     * `--filter-tags` arguments for a tag profile. A tag list must match as a whole and
+     * repeated lists are alternatives, so there is one list per included tag.
+     */
+    private getTagArgs(tags: TagFilter): string[] {
+        const excluded = tags.exclude.map(tag => `!${tag}`);
+        const lists = tags.include.length > 0
+            ? tags.include.map(tag => [tag, ...excluded])
+            : [excluded];
+        return lists.filter(list => list.length > 0).flatMap(list => ['--filter-tags', list.join(',')]);
+    }
+
+    private async getDockerCommand(
         workspaceFolder: vscode.WorkspaceFolder,
-        token: vscode.CancellationToken
-    ): Promise<void> {
-        const config = vscode.workspace.getConfiguration('pluginTests');
+        batsArgs: string[],
+        mocks: MockRun,
+        trace?: TraceSession
+    ): Promise<BatsCommand> {
+        const config = vscode.workspace.getConfiguration('pluginTests', workspaceFolder.uri);
         const dockerImage = config.get<string>('bats.dockerImage', 'bats/bats:latest');
-        const timeout = config.get<number>('timeout', 30000);
 
-        // CRITICAL: Use path relative to the workspace folder, not workspace root
-        const relativePath = getRelativeToWorkspaceFolder(test.uri!);
         const workspacePath = workspaceFolder.uri.fsPath;
-        const dockerMount = toDockerPath(workspacePath);
-
-        // Build the command
-        const args = ['run', '--rm', '-v', `${dockerMount}:/code`, '-w', '/code', dockerImage];
-        
-        // Add test file path (relative to workspace folder)
-        const testPath = relativePath.replace(/\\/g, '/');
-        args.push(testPath);
-        
-        // Add formatter for parsing
-        args.push('--formatter', 'tap', '--timing');
+        const mockMount = { hostPath: toDockerPath(this.mockStore), mountPath: DOCKER_MOCK_DIR };
+        const spec: ContainerSpec = {
+            image: dockerImage,
+            hostPath: toDockerPath(workspacePath),
+            mountPath: '/code',
+            extraMounts: [mockMount]
+        };
 
-        // If this is a specific test case (has parent), add filter
-        if (test.parent) {
-            args.push('--filter', test.label);
+        // Traced runs need the trace session mounted, so they get a container of their own
+        if (trace) {
+            const oneOff = await this.containers.getOneOffRunArgs();
+            const args = ['run', '--rm', ...oneOff.args, '-v', `${spec.hostPath}:/code`, '-w', '/code'];
+            args.push('-v', `${mockMount.hostPath}:${mockMount.mountPath}`, ...getDockerMockEnvArgs(mocks));
+            args.push(...getDockerTraceArgs(trace, toDockerPath(trace.dir)));
+            args.push(dockerImage, ...batsArgs);
+            return {
+                command: 'docker',
+                args,
+                options: { cwd: workspacePath },
+                containerRoot: '/code',
+                // Killing `docker run` only stops the client; the container would keep running
+                onKilled: () => {
+                    this.containers.removeOneOff(oneOff.name).catch(error => this.logger.error('Failed to remove BATS container', error));
+                }
+            };
         }
 
-        this.logger.info(`Running: docker ${args.join(' ')}`);
-        run.appendOutput(`Running: docker ${args.join(' ')}\r\n`);
+        const container = await this.containers.acquire(spec);
+        return {
+            command: 'docker',
+            args: ['exec', '-w', '/code', ...getDockerMockEnvArgs(mocks), container, 'bats', ...batsArgs],
+            options: { cwd: workspacePath },
+            containerRoot: '/code',
+            // Killing `docker exec` leaves bats running in the container, so the container goes too
+            onKilled: () => {
+                this.containers.remove(spec).catch(error => this.logger.error('Failed to remove BATS container', error));
+            }
+        };
+    }
+
+    private getNativeCommand(
+        workspaceFolder: vscode.WorkspaceFolder,
+        args: string[],
+        mocks: MockRun,
+        trace?: TraceSession
+    ): BatsCommand {
+        return {
+            command: 'bats',
+            args,
+            options: {
+                cwd: workspaceFolder.uri.fsPath,
+                env: { ...process.env, ...getMockEnv(mocks), ...(trace ? getTraceEnv(trace) : {}) }
+            }
+        };
+    }
 
-        return new Promise<void>((resolve, reject) => {
-            const proc = spawn('docker', args, {
-                cwd: workspacePath,
-                timeout,
-                shell: true
-            });
+    /**
+     * Run bats and report its results. A watchdog follows the TAP output and kills
+     * the run when the current test exceeds its timeout; results printed up to
+     * then are kept. No shell, so the filter reaches bats without quoting or expansion.
+     */
+    private execute(
+        run: vscode.TestRun,
+        workspaceFolder: vscode.WorkspaceFolder,
+        tests: vscode.TestItem[],
+        expected: vscode.TestItem[],
+        batsCommand: BatsCommand,
+        token: vscode.CancellationToken
+    ): Promise<string> {
+        const { command, args, options, containerRoot, onKilled } = batsCommand;
+        const files = this.getTestFiles(tests);
+
+        this.logger.info(`Running: ${command} ${args.join(' ')}`);
+        run.appendOutput(`Running: ${command} ${args.join(' ')}\r\n`);
+
+        return new Promise<string>((resolve, reject) => {
+            const proc = spawn(command, args, options);
 
             let stdout = '';
             let stderr = '';
+            let completed = 0;
+            let timedOut: TimedOut | undefined;
+
+            const watchdog = new TestWatchdog(timeout => {
+                timedOut = { test: expected[completed], timeout };
+                this.logger.warn(`BATS test timed out after ${timeout} ms: ${timedOut.test?.label ?? 'outside a test'}`);
+                proc.kill();
+            });
+            // Past the last expected test (teardown_file), the last file's timeout applies
+            const armFor = (index: number) => watchdog.arm(expected[index]
+                ? this.getTimeout(workspaceFolder, expected[index])
+                : this.getTimeout(workspaceFolder, files[files.length - 1]));
+            armFor(0);
 
             proc.stdout?.on('data', (data: Buffer) => {
                 const text = data.toString();
                 stdout += text;
                 run.appendOutput(text.replace(/\n/g, '\r\n'));
+
+                const count = stdout.match(/^(?:ok|not ok) \d+/gm)?.length ?? 0;
+                if (count !== completed) {
+                    completed = count;
+                    armFor(completed);
+                }
             });
 
             proc.stderr?.on('data', (data: Buffer) => {
@@ -350,164 +789,529 @@ export class BatsTestProvider implements vscode.Disposable {
                 run.appendOutput(`[stderr] ${text.replace(/\n/g, '\r\n')}`);
             });
 
-            token.onCancellationRequested(() => {
+            // The killed process still closes, but its tests were reported as skipped already
+            let cancelled = false;
+            const cancellation = token.onCancellationRequested(() => {
+                cancelled = true;
+                cancellation.dispose();
+                watchdog.dispose();
                 proc.kill();
-                run.skipped(test);
-                resolve();
+                onKilled?.();
+                tests.forEach(test => run.skipped(test));
+                resolve(stdout);
             });
 
-            proc.on('close', (code) => {
-                if (code === 0) {
-                    this.parseResults(run, test, stdout);
-                    if (!test.children.size) {
-                        run.passed(test);
-                    }
-                } else if (code === 1) {
-                    // BATS returns 1 for test failures
-                    this.parseResults(run, test, stdout);
-                    if (!test.children.size) {
-                        run.failed(test, new vscode.TestMessage('One or more tests failed'));
-                    }
-                } else {
-                    run.errored(test, new vscode.TestMessage(`BATS exited with code ${code}\n${stderr}`));
+            proc.on('close', (code, signal) => {
+                cancellation.dispose();
+                watchdog.dispose();
+                if (cancelled) {
+                    return;
                 }
-                resolve();
+                if (signal) {
+                    onKilled?.();
+                }
+                this.reportExit(run, tests, expected, code, stdout, stderr, containerRoot, timedOut);
+                resolve(stdout);
             });
 
             proc.on('error', (error) => {
-                run.errored(test, new vscode.TestMessage(error.message));
+                cancellation.dispose();
+                watchdog.dispose();
+                if (cancelled) {
+                    return;
+                }
+                tests.forEach(test => run.errored(test, new vscode.TestMessage(error.message)));
                 reject(error);
             });
         });
     }
 
-    private async runTestNatively(
+    /**
+     * Timeout of a test case, or of a file for time spent outside its tests
+     */
+    private getTimeout(workspaceFolder: vscode.WorkspaceFolder, item: vscode.TestItem | undefined): number {
+        if (!item?.uri) {
+            return vscode.workspace.getConfiguration('pluginTests', workspaceFolder.uri).get<number>('timeout', 30000);
+        }
+        const isTestCase = this.isTestCase(item);
+        const file = isTestCase ? item.parent! : item;
+        return resolveTimeout(workspaceFolder, item.uri.fsPath, isTestCase ? item.label : undefined, {
+            file: this.timeouts.get(file),
+            test: isTestCase ? this.timeouts.get(item) : undefined
+        });
+    }
+
+    /**
+     * Report per-test results, falling back to the exit code for tests without a TAP result
+     */
+    private reportExit(
         run: vscode.TestRun,
-        test: vscode.TestItem,
-        workspaceFolder: vscode.WorkspaceFolder,
-        token: vscode.CancellationToken
-    ): Promise<void> {
-        const timeout = vscode.workspace.getConfiguration('pluginTests').get<number>('timeout', 30000);
-        const relativePath = getRelativeToWorkspaceFolder(test.uri!);
-        
-        const args = [relativePath.replace(/\\/g, '/'), '--formatter', 'tap', '--timing'];
-        
-        if (test.parent) {
-            args.push('--filter', test.label);
+        tests: vscode.TestItem[],
+        expected: vscode.TestItem[],
+        code: number | null,
+        stdout: string,
+        stderr: string,
+        containerRoot?: string,
+        timedOut?: TimedOut
+    ): void {
+        if (timedOut) {
+            this.reportTimeout(run, tests, expected, stdout, containerRoot, timedOut);
+            return;
         }
 
-        this.logger.info(`Running: bats ${args.join(' ')}`);
-        run.appendOutput(`Running: bats ${args.join(' ')}\r\n`);
+        if (code !== 0 && code !== 1) {
+            const message = new vscode.TestMessage(`BATS exited with code ${code}\n${stderr}`);
+            tests.forEach(test => run.errored(test, message));
+            return;
+        }
 
-        const spawnOptions: SpawnOptions = {
-            cwd: workspaceFolder.uri.fsPath,
-            timeout,
-            shell: true
-        };
+        if (this.parseResults(run, tests, expected, stdout, containerRoot).size > 0) {
+            return;
+        }
 
-        return new Promise<void>((resolve, reject) => {
-            const proc = spawn('bats', args, spawnOptions);
+        for (const test of tests) {
+            if (code === 0) {
+                run.passed(test);
+            } else {
+                // BATS returns 1 for test failures
+                run.failed(test, new vscode.TestMessage('One or more tests failed'));
+            }
+        }
+    }
 
-            let stdout = '';
-            let stderr = '';
+    /**
+     * Keep the results printed before the run was killed, mark the hanging test
+     * as timed out and the tests that never got to run as skipped
+     */
+    private reportTimeout(
+        run: vscode.TestRun,
+        tests: vscode.TestItem[],
+        expected: vscode.TestItem[],
+        stdout: string,
+        containerRoot: string | undefined,
+        timedOut: TimedOut
+    ): void {
+        const reported = this.parseResults(run, tests, expected, stdout, containerRoot);
+        const message = new vscode.TestMessage(formatTimeoutMessage(timedOut.timeout));
+        const requested = this.getRequestedCases(tests);
+        const hanging = timedOut.test && requested.has(timedOut.test) ? timedOut.test : undefined;
+
+        for (const test of requested) {
+            if (reported.has(test)) {
+                continue;
+            }
+            run.started(test);
+            // Without a known culprit (e.g. a hanging setup_file) every remaining test is affected
+            if (!hanging || test === hanging) {
+                run.errored(test, message);
+            } else {
+                run.skipped(test);
+            }
+        }
+    }
 
-            proc.stdout?.on('data', (data: Buffer) => {
-                const text = data.toString();
-                stdout += text;
-                run.appendOutput(text.replace(/\n/g, '\r\n'));
-            });
+    private async restartContainers(): Promise<void> {
+        try {
+            await this.containers.restart();
+            vscode.window.showInformationMessage('BATS containers restarted');
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.error('Failed to restart BATS containers', error);
+            vscode.window.showErrorMessage(`Failed to restart BATS containers: ${message}`);
+        }
+    }
 
-            proc.stderr?.on('data', (data: Buffer) => {
-                const text = data.toString();
-                stderr += text;
-                run.appendOutput(`[stderr] ${text.replace(/\n/g, '\r\n')}`);
-            });
+    /**
+     * Attach the collected trace to the test's output, linking each line to its source
+     */
+    private reportTrace(
+        run: vscode.TestRun,
+        test: vscode.TestItem,
+        workspaceFolder: vscode.WorkspaceFolder,
+        tapOutput: string,
+        scriptTrace: string,
+        inDocker: boolean
+    ): void {
+        const workspacePath = workspaceFolder.uri.fsPath;
+        const containerRoot = inDocker ? '/code' : undefined;
 
-            token.onCancellationRequested(() => {
-                proc.kill();
-                run.skipped(test);
-                resolve();
-            });
+        const appendLines = (title: string, lines: TraceLine[]) => {
+            if (lines.length === 0) {
+                return;
+            }
+            run.appendOutput(`\r\n--- ${title}: ${test.label} ---\r\n`, undefined, test);
+            for (const line of lines) {
+                const filePath = line.file !== undefined
+                    ? resolveTracePath(line.file, workspacePath, test.uri!.fsPath, containerRoot)
+                    : undefined;
+                const location = filePath && line.line !== undefined
+                    ? new vscode.Location(vscode.Uri.file(filePath), new vscode.Position(line.line, 0))
+                    : undefined;
+                run.appendOutput(`${line.text}\r\n`, location, test);
+            }
+        };
 
-            proc.on('close', (code) => {
-                if (code === 0) {
-                    this.parseResults(run, test, stdout);
-                    if (!test.children.size) {
-                        run.passed(test);
-                    }
-                } else if (code === 1) {
-                    this.parseResults(run, test, stdout);
-                    if (!test.children.size) {
-                        run.failed(test, new vscode.TestMessage('One or more tests failed'));
-                    }
+        appendLines('Test trace', parseBatsTrace(tapOutput));
+        appendLines('Script trace', parseScriptTrace(scriptTrace));
+    }
+
+    /**
+     * Attach each test's mock calls to its output as a timeline, every call linked
+     * to where it was made. Calls outside a test (e.g. in `setup_file`) go to the file.
+     *
+     * Like TAP results, calls name their test but not reliably its file, so they
+     * are matched in run order (`expected`), one test per suite test number.
+     */
+    private reportMockCalls(
+        run: vscode.TestRun,
+        workspaceFolder: vscode.WorkspaceFolder,
+        tests: vscode.TestItem[],
+        expected: vscode.TestItem[],
+        calls: MockCall[],
+        containerRoot?: string
+    ): void {
+        const workspacePath = workspaceFolder.uri.fsPath;
+        const requested = this.getRequestedCases(tests);
+        const files = this.getTestFiles(tests);
+        const timelines = new Map<vscode.TestItem, MockCall[]>();
+        const byNumber = new Map<number, vscode.TestItem | undefined>();
+        let cursor = 0;
+
+        for (const call of calls) {
+            const file = call.file ? this.fileItems.get(toHostPath(call.file, workspacePath, containerRoot)) : undefined;
+            const inFile = (test: vscode.TestItem) => test.label === call.test && (!file || test.parent === file);
+
+            let item: vscode.TestItem | undefined;
+            if (call.testNumber === undefined || call.test === undefined) {
+                item = file && files.includes(file) ? file : undefined;
+            } else if (byNumber.has(call.testNumber)) {
+                item = byNumber.get(call.testNumber);
+            } else {
+                const index = expected.findIndex((test, i) => i >= cursor && inFile(test));
+                if (index !== -1) {
+                    item = expected[index];
+                    cursor = index + 1;
                 } else {
-                    run.errored(test, new vscode.TestMessage(`BATS exited with code ${code}\n${stderr}`));
+                    item = [...requested].find(inFile);
                 }
-                resolve();
-            });
+                item = item && requested.has(item) ? item : undefined;
+                byNumber.set(call.testNumber, item);
+            }
 
-            proc.on('error', (error) => {
-                run.errored(test, new vscode.TestMessage(error.message));
-                reject(error);
+            if (item) {
+                timelines.set(item, [...(timelines.get(item) ?? []), call]);
+            }
+        }
+
+        for (const [item, timeline] of timelines) {
+            const title = this.isTestCase(item) ? item.label : `${item.label} (outside tests)`;
+            run.appendOutput(`\r\n--- Mock calls: ${title} ---\r\n`, undefined, item);
+
+            const start = timeline[0].time;
+            timeline.forEach((call, index) => {
+                const offset = call.time !== undefined && start !== undefined
+                    ? `+${(call.time - start).toFixed(3)}s`
+                    : `#${index + 1}`;
+                const location = this.getMockCallLocation(call, this.isTestCase(item) ? item.parent! : item, workspacePath, containerRoot);
+                run.appendOutput(`${offset}  ${formatMockCall(call)}\r\n`, location, item);
             });
-        });
+        }
     }
 
-    private parseResults(run: vscode.TestRun, test: vscode.TestItem, output: string): void {
-        // Parse TAP output: ok 1 test name in 0ms / not ok 1 test name in 0ms
-        const lines = output.split('\n');
-        const resultRegex = /^(ok|not ok)\s+\d+\s+(.+?)\s+in\s+(\d+)(ms|sec)$/;
+    /**
+     * Where a mock was called. Test bodies and hooks run from bats' preprocessed
+     * copy of the test file (`*.src`), which keeps the file's line numbers.
+     */
+    private getMockCallLocation(
+        call: MockCall,
+        file: vscode.TestItem,
+        workspacePath: string,
+        containerRoot?: string
+    ): vscode.Location | undefined {
+        if (!call.source || call.line === undefined || !file.uri) {
+            return undefined;
+        }
+        const filePath = call.source.endsWith('.src')
+            ? file.uri.fsPath
+            : resolveTracePath(call.source, workspacePath, file.uri.fsPath, containerRoot);
+        return filePath ? new vscode.Location(vscode.Uri.file(filePath), new vscode.Position(call.line, 0)) : undefined;
+    }
 
-        for (const line of lines) {
-            const match = resultRegex.exec(line.trim());
-            if (match) {
-                const status = match[1];
-                const testName = match[2];
-                let duration = parseInt(match[3], 10);
-                if (match[4] === 'sec') {
-                    duration *= 1000;
-                }
+    /**
+     * Report per-test results from TAP output. Returns the test items that
+     * got a result.
+     *
+     * TAP results don't name their file, so they are matched in run order
+     * (`expected`, see getExpectedOrder), falling back to the test name.
+     */
+    private parseResults(
+        run: vscode.TestRun,
+        tests: vscode.TestItem[],
+        expected: vscode.TestItem[],
+        output: string,
+        containerRoot?: string
+    ): Set<vscode.TestItem> {
+        const requested = this.getRequestedCases(tests);
+        const reportedItems = new Set<vscode.TestItem>();
+        // Position in `expected` of the next test bats is going to report
+        let cursor = 0;
+
+        for (const result of parseTapOutput(output)) {
+            const hook = /^(setup_file|teardown_file|setup_suite|teardown_suite) failed$/.exec(result.name);
+            if (hook && expected[cursor]?.label !== result.name) {
+                cursor = this.reportHookFailure(run, tests, expected, cursor, hook[1] as BatsHook, result, reportedItems, containerRoot);
+                continue;
+            }
+
+            const index = expected.findIndex((test, i) => i >= cursor && test.label === result.name);
+            let childTest: vscode.TestItem | undefined;
+            if (index !== -1) {
+                childTest = expected[index];
+                cursor = index + 1;
+            } else {
+                childTest = [...requested].find(candidate => candidate.label === result.name && !reportedItems.has(candidate));
+            }
+            if (!childTest || !requested.has(childTest) || reportedItems.has(childTest)) {
+                continue;
+            }
 
-                // Find the child test item
-                let childTest: vscode.TestItem | undefined;
-                test.children.forEach(child => {
-                    if (child.label === testName) {
-                        childTest = child;
-                    }
-                });
-
-                if (childTest) {
-                    run.started(childTest);
-                    if (status === 'ok') {
-                        run.passed(childTest, duration);
-                    } else {
-                        run.failed(childTest, new vscode.TestMessage(`Test failed`), duration);
-                    }
+            run.started(childTest);
+            if (result.skipped) {
+                if (result.skipReason) {
+                    run.appendOutput(`Skipped: ${result.skipReason}\r\n`, undefined, childTest);
                 }
+                run.skipped(childTest);
+            } else if (result.ok) {
+                run.passed(childTest, result.duration);
+            } else {
+                run.failed(childTest, this.createFailureMessage(result, childTest, containerRoot), result.duration);
             }
+            reportedItems.add(childTest);
         }
+
+        return reportedItems;
+    }
+
+    /**
+     * Report a failed file or suite hook. bats skips the tests of a file whose `setup_file`
+     * failed, so they are errored; a failed `teardown_file` is reported on its file.
+     * Returns the position in `expected` after the tests the failure accounts for.
+     */
+    private reportHookFailure(
+        run: vscode.TestRun,
+        tests: vscode.TestItem[],
+        expected: vscode.TestItem[],
+        cursor: number,
+        hook: BatsHook,
+        result: TapResult,
+        reportedItems: Set<vscode.TestItem>,
+        containerRoot?: string
+    ): number {
+        const requested = this.getRequestedCases(tests);
+        const errorTests = (affected: vscode.TestItem[], message: vscode.TestMessage) => {
+            for (const test of affected.filter(test => requested.has(test) && !reportedItems.has(test))) {
+                run.started(test);
+                run.errored(test, message);
+                reportedItems.add(test);
+            }
+        };
+
+        if (hook === 'setup_file' && expected[cursor]) {
+            const file = expected[cursor].parent!;
+            let end = cursor;
+            while (end < expected.length && expected[end].parent === file) {
+                end++;
+            }
+            errorTests(expected.slice(cursor, end), this.createHookFailureMessage(result, file, hook, containerRoot));
+            return end;
+        }
+
+        if (hook === 'setup_file' || hook === 'setup_suite') {
+            const file = this.getTestFiles(tests)[0];
+            errorTests([...requested], this.createHookFailureMessage(result, file, hook, containerRoot));
+            return expected.length;
+        }
+
+        // Teardown hooks run after the tests, which keep their results
+        const files = hook === 'teardown_file'
+            ? [expected[cursor - 1]?.parent ?? this.getTestFiles(tests)[0]]
+            : this.getTestFiles(tests);
+        for (const file of files) {
+            run.errored(file, this.createHookFailureMessage(result, file, hook, containerRoot));
+        }
+        return cursor;
+    }
+
+    /**
+     * A hook failure message, pointing at the hook when bats doesn't report a location
+     */
+    private createHookFailureMessage(result: TapResult, file: vscode.TestItem, hook: BatsHook, containerRoot?: string): vscode.TestMessage {
+        const message = this.createFailureMessage(result, file, containerRoot);
+        message.message = `${result.name}\n${message.message}`;
+        message.location = message.location ?? this.hooks.get(file)?.get(hook);
+        return message;
+    }
+
+    private createFailureMessage(result: TapResult, test: vscode.TestItem, containerRoot?: string): vscode.TestMessage {
+        const failure = parseBatsFailure(result.diagnostics);
+        const message = failure.expected !== undefined && failure.actual !== undefined
+            ? vscode.TestMessage.diff(failure.message, failure.expected, failure.actual)
+            : new vscode.TestMessage(failure.message);
+
+        const workspaceFolder = test.uri ? getWorkspaceFolder(test.uri) : undefined;
+        if (failure.file && failure.line && workspaceFolder) {
+            const filePath = toHostPath(failure.file, workspaceFolder.uri.fsPath, containerRoot);
+            message.location = new vscode.Location(vscode.Uri.file(filePath), new vscode.Position(failure.line - 1, 0));
+        } else if (test.uri && test.range) {
+            message.location = new vscode.Location(test.uri, test.range);
+        }
+
+        return message;
+    }
+
+    /**
+     * The test files that `load`, `source` or `run` a script
+     */
+    async getTestsForSourceFile(uri: vscode.Uri): Promise<vscode.TestItem[]> {
+        return this.dependencies.getTestFiles(uri.fsPath)
+            .map(file => this.fileItems.get(file))
+            .filter((item): item is vscode.TestItem => item !== undefined);
+    }
+
+    get onDidChangeDependencies(): vscode.Event<void> {
+        return this.dependencies.onDidChange;
+    }
+
+    /**
+     * Run a test file, or the tests that exercise a source file. Returns false if there are none.
+     */
+    async runTestsForFile(uri: vscode.Uri): Promise<boolean> {
+        const tests = await this.getAffectedTests(uri);
+        if (tests.length === 0) {
+            return false;
+        }
+
+        const tokenSource = new vscode.CancellationTokenSource();
+        this.runHandler(new vscode.TestRunRequest(tests, undefined, this.runProfile), tokenSource.token)
+            .catch(error => this.logger.error('Failed to run BATS tests for file', error))
+            .finally(() => tokenSource.dispose());
+        return true;
+    }
+
+    /**
+     * Run the flaky tests `times` times in a row, each time as a run of its own so every
+     * repetition adds to their history; stopping one of the runs ends the repetitions.
+     * Returns how many flaky tests there are.
+     */
+    async runFlakyTests(times: number, token: vscode.CancellationToken): Promise<number> {
+        const tests = this.history.getFlakyTests();
+        for (let i = 0; i < times && tests.length > 0; i++) {
+            if (!await this.runRequest(new vscode.TestRunRequest(tests, undefined, this.runProfile), token)) {
+                break;
+            }
+        }
+        return tests.length;
+    }
+
+    /**
+     * Re-run the tests whose last result was a failure or error. Returns false when there are none.
+     */
+    runFailedTests(): boolean {
+        const tests = this.continuous.getFailedTests();
+        if (tests.length === 0) {
+            return false;
+        }
+
+        const tokenSource = new vscode.CancellationTokenSource();
+        this.runHandler(new vscode.TestRunRequest(tests, undefined, this.runProfile), tokenSource.token)
+            .catch(error => this.logger.error('Failed to re-run failed BATS tests', error))
+            .finally(() => tokenSource.dispose());
+        return true;
+    }
+
+    /**
+     * Run an item over and over until one of its tests fails, at most `maxRuns` times.
+     * Stopping one of the runs ends the loop. Returns how many runs completed and
+     * whether the last of them failed.
+     */
+    async runUntilFailure(
+        item: vscode.TestItem,
+        maxRuns: number,
+        token: vscode.CancellationToken,
+        onRun?: (run: number) => void
+    ): Promise<{ runs: number; failed: boolean }> {
+        for (let i = 1; i <= maxRuns; i++) {
+            onRun?.(i);
+            if (!await this.runRequest(new vscode.TestRunRequest([item], undefined, this.runProfile), token)) {
+                return { runs: i - 1, failed: false };
+            }
+            if (this.continuous.isFailing(item)) {
+                return { runs: i, failed: true };
+            }
+        }
+        return { runs: maxRuns, failed: false };
+    }
+
+    /**
+     * Every test within a test file, parsing the file if needed
+     */
+    async getTestsInFile(uri: vscode.Uri): Promise<vscode.TestItem[]> {
+        const fileItem = this.fileItems.get(uri.fsPath);
+        if (!fileItem) {
+            return [];
+        }
+        if (fileItem.children.size === 0) {
+            await this.parseTestFile(fileItem);
+        }
+
+        const tests: vscode.TestItem[] = [];
+        const visit = (item: vscode.TestItem) => {
+            tests.push(item);
+            item.children.forEach(visit);
+        };
+        fileItem.children.forEach(visit);
+        return tests;
+    }
+
+    /**
+     * The tests a change to a file affects: a test file's own tests, or those exercising a source file
+     */
+    private async getAffectedTests(uri: vscode.Uri): Promise<vscode.TestItem[]> {
+        const fileItem = this.fileItems.get(uri.fsPath);
+        return fileItem ? [fileItem] : this.getTestsForSourceFile(uri);
     }
 
     private async onTestFileCreated(uri: vscode.Uri): Promise<void> {
+        if (!await this.files.isTestFile(uri)) {
+            return;
+        }
         this.logger.debug(`Test file created: ${uri.fsPath}`);
         await this.createTestItem(uri);
+        await this.continuous.fileChanged(uri);
     }
 
     private async onTestFileChanged(uri: vscode.Uri): Promise<void> {
-        const existing = this.controller.items.get(uri.fsPath);
+        const existing = this.fileItems.get(uri.fsPath);
         if (existing) {
-            await this.parseTestFile(existing);
+            await Promise.all([this.parseTestFile(existing), this.dependencies.update(uri)]);
+            await this.continuous.fileChanged(uri);
         }
     }
 
     private onTestFileDeleted(uri: vscode.Uri): void {
         this.logger.debug(`Test file deleted: ${uri.fsPath}`);
-        this.controller.items.delete(uri.fsPath);
+        const existing = this.fileItems.get(uri.fsPath);
+        if (existing) {
+            this.tree.removeFile(existing);
+            this.fileItems.delete(uri.fsPath);
+            this.dependencies.remove(uri);
+        }
     }
 
     dispose(): void {
-        for (const disposable of this.disposables) {
+        for (const disposable of [...this.disposables, ...this.watchers, ...this.tagProfiles]) {
             disposable.dispose();
         }
+        disposeMockStore(this.mockStore);
     }
 }
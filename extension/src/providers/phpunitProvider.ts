@@ -6,113 +6,456 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
 import { spawn, SpawnOptions } from 'child_process';
 import { Logger } from '../utils/logger';
-import { getWorkspaceFolder, getRelativeToWorkspaceFolder } from '../utils/paths';
+import {
+    getWorkspaceFolder,
+    getRelativeToWorkspaceFolder,
+    getDebugPathMappings,
+    toDockerPath,
+    toHostPath,
+    toContainerPath,
+    mapContainerPaths
+} from '../utils/paths';
+import { ContainerSpec, DockerContainerPool } from '../utils/dockerPool';
+import { CoverageFormat, LineCoverage, parseCoverageReport, mergeCoverage } from '../parsers/coverage';
+import { JUnitTestCase, JUnitOutcome, parseJUnitReport, parseComparisonDiff, getMethodName, getDataSetName } from '../parsers/junit';
+import { escapeRegExp } from '../utils/regex';
+import { getRequestedTests, groupByWorkspaceFolder } from '../utils/testItems';
+import { TestWatchdog, resolveTimeout, formatTimeoutMessage } from '../utils/timeouts';
+import { ContinuousRunner } from '../utils/continuousRun';
+import { TestHistory, withoutHistoryTags } from '../utils/testHistory';
+import { DependencyIndex } from '../utils/dependencyIndex';
+import { TestFileFinder } from '../utils/testFiles';
+import { TestTree } from '../utils/testTree';
+import { TagFilter, getTagProfiles, toTagFilter, matchesTags, toTestTags } from '../utils/tags';
+import { parseTeamCityProgress } from '../parsers/teamcity';
+import { MockStateSnapshot, parseMockStateLog, getSnapshotTestName, formatMockState } from '../parsers/mockState';
+import { parsePhpTestFile } from '../parsers/phpStructure';
+import { extractPhpDependencies, extractPhpDeclarations } from '../parsers/dependencies';
+import { PhpUnitConfig, PhpUnitTestSuite, PHPUNIT_CONFIG_FILES, parsePhpUnitConfig, isInTestSuite, createBatchConfiguration } from '../parsers/phpunitConfig';
+
+type TestItemKind = 'suite' | 'file' | 'namespace' | 'class' | 'method' | 'dataSet';
+
+interface TestItemData {
+    kind: TestItemKind;
+    /** `<testsuite>` name, for suite items */
+    suiteName?: string;
+    className?: string;
+    methodName?: string;
+    /** Data set as PHPUnit names it: `#0` or `"name"` */
+    dataSet?: string;
+    /** Same-class tests a method depends on; they are run along with it */
+    depends?: string[];
+    /** From a `#[Timeout]` attribute on the class or method */
+    timeout?: number;
+}
 
-interface TestMethod {
-    name: string;
-    line: number;
+interface RunOptions {
+    /** Launch PHP with Xdebug connecting back to a debug session */
+    debug?: boolean;
+    /** Collect code coverage into this report file */
+    coverageFile?: string;
+    /** Run in a container from this image, whatever `phpunit.useDocker` says */
+    dockerImage?: string;
+    /** Only run tests in (or not in) these groups (tag profiles) */
+    tags?: TagFilter;
 }
 
-interface TestClass {
-    name: string;
-    line: number;
-    methods: TestMethod[];
+/** Where the workspace folder and the extension's work directory are mounted in PHPUnit containers */
+const DOCKER_ROOT = '/code';
+const DOCKER_WORK_DIR = '/plugin-tests';
+
+/** Tells the framework's MockStateExtension where to record the mock state of failed tests */
+const MOCK_STATE_FILE_VARIABLE = 'PLUGIN_TESTS_MOCK_STATE_FILE';
+
+interface TimedOut {
+    /** Method item of the test that was running, if known */
+    test?: vscode.TestItem;
+    timeout: number;
+}
+
+/** What a single PHPUnit invocation is pointed at */
+interface RunTarget {
+    args: string[];
+    filter?: string;
 }
 
 export class PhpUnitTestProvider implements vscode.Disposable {
     private controller: vscode.TestController;
     private logger: Logger;
     private disposables: vscode.Disposable[] = [];
+    /** Test file watchers, rebuilt when the pattern or workspace folders change */
+    private watchers: vscode.Disposable[] = [];
+    private coverageDetails = new WeakMap<vscode.FileCoverage, vscode.StatementCoverage[]>();
+    private itemData = new WeakMap<vscode.TestItem, TestItemData>();
+    /** File items by path; files may sit below a test suite item */
+    private fileItems = new Map<string, vscode.TestItem>();
+    /** PHPUnit configuration in use per workspace folder URI (undefined = none) */
+    private configurations = new Map<string, PhpUnitConfig | undefined>();
+    private context: vscode.ExtensionContext;
+    private containers: DockerContainerPool;
+    private runProfile: vscode.TestRunProfile;
+    /** Profiles from `pluginTests.tagProfiles`, rebuilt when the setting changes */
+    private tagProfiles: vscode.TestRunProfile[] = [];
+    private continuous: ContinuousRunner;
+    /** Outcomes and durations of earlier runs, for flaky test detection */
+    readonly history: TestHistory;
+    private dependencies: DependencyIndex;
+    private files: TestFileFinder;
+    private tree: TestTree;
+    /** Reports and generated configurations; mounted into containers so both sides can reach them */
+    private workDir: string;
 
     constructor(context: vscode.ExtensionContext, logger: Logger) {
+        this.context = context;
         this.logger = logger;
+        this.containers = new DockerContainerPool('phpunit', logger);
+        this.workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-tests-phpunit-'));
         this.controller = vscode.tests.createTestController('pluginTests.phpunit', 'PHPUnit Tests');
+        this.tree = new TestTree(this.controller);
+        this.dependencies = new DependencyIndex(extractPhpDependencies, logger);
+        this.files = new TestFileFinder('phpunit', '**/*Test.php', '**/vendor/**');
+        this.continuous = new ContinuousRunner(this.controller, logger, uri => this.getAffectedTests(uri));
+        this.history = new TestHistory(context, this.controller, 'phpunit', logger);
         
         this.controller.resolveHandler = this.resolveHandler.bind(this);
         this.controller.refreshHandler = this.refreshHandler.bind(this);
 
-        const runProfile = this.controller.createRunProfile(
+        this.runProfile = this.controller.createRunProfile(
             'Run PHPUnit Tests',
             vscode.TestRunProfileKind.Run,
             this.runHandler.bind(this),
+            true,
+            undefined,
             true
         );
 
-        this.disposables.push(this.controller, runProfile);
+        const debugProfile = this.controller.createRunProfile(
+            'Debug PHPUnit Tests',
+            vscode.TestRunProfileKind.Debug,
+            this.debugHandler.bind(this),
+            true
+        );
 
+        const coverageProfile = this.controller.createRunProfile(
+            'Run PHPUnit Tests with Coverage',
+            vscode.TestRunProfileKind.Coverage,
+            this.coverageHandler.bind(this),
+            true
+        );
+        coverageProfile.loadDetailedCoverage = async (_run, fileCoverage) => this.coverageDetails.get(fileCoverage) ?? [];
+
+        // Runs the selection once per configured PHP image, each as its own test run
+        const matrixProfile = this.controller.createRunProfile(
+            'Run PHPUnit Tests on All PHP Versions',
+            vscode.TestRunProfileKind.Run,
+            this.matrixHandler.bind(this),
+            false
+        );
+        this.setupTagProfiles();
+
+        this.disposables.push(
+            this.controller,
+            this.runProfile,
+            debugProfile,
+            coverageProfile,
+            matrixProfile,
+            this.containers,
+            this.continuous,
+            this.history,
+            this.dependencies,
+            this.files,
+            vscode.commands.registerCommand('pluginTests.phpunit.selectConfiguration', () => this.selectConfiguration()),
+            vscode.workspace.onDidChangeConfiguration(e => this.onConfigurationChanged(e)),
+            this.files.onDidChangeIgnoreFiles(() => this.reload()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload())
+        );
+
+        this.setupConfigurationWatcher();
         this.setupFileWatchers();
         this.discoverTests().catch(error => {
             this.logger.error('Failed during initial PHPUnit test discovery', error);
         });
     }
 
+    /**
+     * Watch the test files of each enabled workspace folder, with that folder's test suites or patterns.
+     * Called again after discovery, once the folders' configuration files are known.
+     */
     private setupFileWatchers(): void {
-        const pattern = this.getTestPattern();
-        const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers = [];
+
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            if (!this.isAllowedWorkspaceFolder(folder.uri)) {
+                continue;
+            }
+
+            for (const pattern of this.getWatchPatterns(folder)) {
+                const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+                watcher.onDidCreate(uri => this.onTestFileCreated(uri).catch(e => this.logger.error('File watcher create error', e)));
+                watcher.onDidChange(uri => this.onTestFileChanged(uri).catch(e => this.logger.error('File watcher change error', e)));
+                watcher.onDidDelete(uri => this.onTestFileDeleted(uri));
+                this.watchers.push(watcher);
+            }
+        }
+    }
+
+    /**
+     * The directories and files of the folder's test suites or, without suites, its `phpunit.pattern` globs
+     */
+    private getWatchPatterns(folder: vscode.WorkspaceFolder): vscode.RelativePattern[] {
+        const config = this.configurations.get(folder.uri.toString());
+        if (!config || config.testSuites.length === 0) {
+            return this.files.getPatterns(folder).include.map(include => new vscode.RelativePattern(folder, include));
+        }
+
+        // Suites often share directories; one watcher each is enough
+        const patterns = new Map<string, vscode.RelativePattern>();
+        for (const suite of config.testSuites) {
+            for (const directory of suite.directories) {
+                patterns.set(`${directory.path}\0${directory.prefix}\0${directory.suffix}`,
+                    new vscode.RelativePattern(vscode.Uri.file(directory.path), `**/${directory.prefix}*${directory.suffix}`));
+            }
+            for (const file of suite.files) {
+                patterns.set(file, new vscode.RelativePattern(vscode.Uri.file(path.dirname(file)), path.basename(file)));
+            }
+        }
+        return [...patterns.values()];
+    }
 
-        watcher.onDidCreate(uri => this.onTestFileCreated(uri).catch(e => this.logger.error('File watcher create error', e)));
-        watcher.onDidChange(uri => this.onTestFileChanged(uri).catch(e => this.logger.error('File watcher change error', e)));
-        watcher.onDidDelete(uri => this.onTestFileDeleted(uri));
+    private setupConfigurationWatcher(): void {
+        // Test suites come from the configuration files, so any change to them means rediscovery
+        const configWatcher = vscode.workspace.createFileSystemWatcher(`**/{${PHPUNIT_CONFIG_FILES.join(',')}}`);
+        const onConfigChanged = (uri: vscode.Uri) => {
+            this.logger.info(`PHPUnit configuration changed: ${uri.fsPath}`);
+            this.refreshHandler().catch(e => this.logger.error('Failed to reload PHPUnit configuration', e));
+        };
+        configWatcher.onDidCreate(onConfigChanged);
+        configWatcher.onDidChange(onConfigChanged);
+        configWatcher.onDidDelete(onConfigChanged);
 
-        this.disposables.push(watcher);
+        this.disposables.push(configWatcher);
     }
 
-    private getTestPattern(): string {
-        return vscode.workspace.getConfiguration('pluginTests').get<string>('phpunit.pattern', '**/*Test.php');
+    /**
+     * A run profile per `pluginTests.tagProfiles` entry, running only the tests in matching groups
+     */
+    private setupTagProfiles(): void {
+        this.tagProfiles.forEach(profile => profile.dispose());
+        this.tagProfiles = getTagProfiles().map(profile => this.controller.createRunProfile(
+            profile.name,
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.runHandler(request, token, toTagFilter(profile)),
+            false
+        ));
     }
 
-    private getExcludePattern(): string {
-        return vscode.workspace.getConfiguration('pluginTests').get<string>('phpunit.exclude', '**/vendor/**');
+    private onConfigurationChanged(e: vscode.ConfigurationChangeEvent): void {
+        if (e.affectsConfiguration('pluginTests.tagProfiles')) {
+            this.setupTagProfiles();
+        }
+
+        if (e.affectsConfiguration('pluginTests.phpunit.dockerImage') || e.affectsConfiguration('pluginTests.phpunit.useDocker')) {
+            this.containers.clear().catch(error => this.logger.error('Failed to remove PHPUnit containers', error));
+        }
+
+        const discoverySettings = ['workspaceFolders', 'phpunit.enabled', 'phpunit.pattern', 'phpunit.exclude', 'phpunit.configuration', 'useGitignore', 'useFilesExclude'];
+        if (discoverySettings.some(setting => e.affectsConfiguration(`pluginTests.${setting}`)) || e.affectsConfiguration('files.exclude')) {
+            this.logger.info('PHPUnit discovery settings changed');
+            this.reload();
+        }
+    }
+
+    /**
+     * Start over with watchers and tests for the current settings and workspace folders
+     */
+    private reload(): void {
+        this.setupFileWatchers();
+        this.refreshHandler().catch(error => this.logger.error('Failed to reload PHPUnit tests', error));
     }
 
     private getAllowedWorkspaceFolders(): string[] {
         return vscode.workspace.getConfiguration('pluginTests').get<string[]>('workspaceFolders', []);
     }
 
+    /**
+     * Whether PHPUnit tests are discovered in the workspace folder of `uri`: listed in
+     * `pluginTests.workspaceFolders` (when set) and not disabled for that folder
+     */
     private isAllowedWorkspaceFolder(uri: vscode.Uri): boolean {
-        const allowed = this.getAllowedWorkspaceFolders();
-        if (allowed.length === 0) {
-            return true; // No filter = allow all
-        }
         const folder = getWorkspaceFolder(uri);
-        return folder ? allowed.includes(folder.name) : false;
+        if (!folder || !vscode.workspace.getConfiguration('pluginTests', folder.uri).get<boolean>('phpunit.enabled', true)) {
+            return false;
+        }
+        const allowed = this.getAllowedWorkspaceFolders();
+        return allowed.length === 0 || allowed.includes(folder.name);
     }
 
     private async discoverTests(): Promise<void> {
         this.logger.info('Discovering PHPUnit tests...');
-        const pattern = this.getTestPattern();
-        const excludePatterns = this.getExcludePattern().split(',').map(p => p.trim()).filter(p => p);
-        
-        // findFiles only takes one exclude pattern, so we'll use the first one and filter the rest
-        const primaryExclude = excludePatterns[0] || '**/vendor/**';
-        const files = await vscode.workspace.findFiles(pattern, primaryExclude);
-        
-        // Apply additional exclude patterns manually
-        let filteredFiles = files;
-        for (const excludePattern of excludePatterns.slice(1)) {
-            const excludeGlob = new vscode.RelativePattern('', excludePattern);
-            filteredFiles = filteredFiles.filter(f => {
-                const relativePath = vscode.workspace.asRelativePath(f);
-                // Simple glob matching for **/ patterns
-                const pattern = excludePattern.replace(/\*\*/g, '.*').replace(/\*/g, '[^/]*');
-                const regex = new RegExp(pattern);
-                return !regex.test(relativePath);
-            });
+
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            if (!this.isAllowedWorkspaceFolder(folder.uri)) {
+                continue;
+            }
+
+            const config = await this.loadConfiguration(folder);
+            this.configurations.set(folder.uri.toString(), config);
+
+            if (config && config.testSuites.length > 0) {
+                await this.discoverTestSuites(folder, config);
+            } else {
+                await this.discoverByPattern(folder);
+            }
         }
-        
-        // Filter by allowed workspace folders
-        filteredFiles = filteredFiles.filter(f => this.isAllowedWorkspaceFolder(f));
-        
-        this.logger.info(`Found ${filteredFiles.length} PHPUnit test files (${files.length} before filtering)`);
-        
-        for (const file of filteredFiles) {
+
+        // The suites decide what to watch
+        this.setupFileWatchers();
+    }
+
+    /**
+     * Discover test files from the `phpunit.pattern` globs (no configuration file in use)
+     */
+    private async discoverByPattern(folder: vscode.WorkspaceFolder): Promise<void> {
+        const files = await this.files.findFiles(folder);
+        this.logger.info(`Found ${files.length} PHPUnit test files in ${folder.name}`);
+
+        for (const file of files) {
             await this.createTestItem(file);
         }
     }
 
-    private async createTestItem(uri: vscode.Uri): Promise<vscode.TestItem | undefined> {
+    /**
+     * Discover test files per `<testsuite>`, each suite becoming a group beneath the workspace folder
+     */
+    private async discoverTestSuites(folder: vscode.WorkspaceFolder, config: PhpUnitConfig): Promise<void> {
+        for (const suite of config.testSuites) {
+            const suiteItem = this.createSuiteItem(folder, config, suite);
+
+            const files = new Map<string, vscode.Uri>();
+            for (const directory of suite.directories) {
+                const pattern = new vscode.RelativePattern(directory.path, `**/${directory.prefix}*${directory.suffix}`);
+                for (const file of await vscode.workspace.findFiles(pattern, null)) {
+                    if (isInTestSuite(suite, file.fsPath) && !await this.files.isExcluded(folder, file)) {
+                        files.set(file.fsPath, file);
+                    }
+                }
+            }
+            for (const file of suite.files) {
+                if (fs.existsSync(file)) {
+                    files.set(file, vscode.Uri.file(file));
+                }
+            }
+
+            this.logger.info(`Found ${files.size} PHPUnit test files in suite '${suite.name}' (${folder.name})`);
+
+            for (const file of files.values()) {
+                await this.createTestItem(file, suiteItem);
+            }
+        }
+    }
+
+    private createSuiteItem(folder: vscode.WorkspaceFolder, config: PhpUnitConfig, suite: PhpUnitTestSuite): vscode.TestItem {
+        const suiteItem = this.controller.createTestItem(`${config.path}#${suite.name}`, suite.name, vscode.Uri.file(config.path));
+        suiteItem.description = path.basename(config.path);
+        this.itemData.set(suiteItem, { kind: 'suite', suiteName: suite.name });
+        this.tree.getFolderItem(folder).children.add(suiteItem);
+        return suiteItem;
+    }
+
+    /**
+     * Pick the configuration file for a workspace folder: the `phpunit.configuration`
+     * setting, then the user's choice from the picker, then the file PHPUnit itself
+     * would pick in the folder root.
+     */
+    private async loadConfiguration(folder: vscode.WorkspaceFolder): Promise<PhpUnitConfig | undefined> {
+        const configured = vscode.workspace.getConfiguration('pluginTests', folder.uri).get<string>('phpunit.configuration', '');
+        const chosen = this.context.workspaceState.get<string>(this.getConfigurationStateKey(folder));
+
+        let configPath: string | undefined;
+        if (configured) {
+            configPath = path.resolve(folder.uri.fsPath, configured);
+        } else if (chosen !== undefined) {
+            // An empty choice means "don't use a configuration file"
+            configPath = chosen ? path.resolve(folder.uri.fsPath, chosen) : undefined;
+        } else {
+            const candidates = await this.findConfigurations(folder);
+            configPath = PHPUNIT_CONFIG_FILES
+                .map(name => path.join(folder.uri.fsPath, name))
+                .find(candidate => candidates.some(uri => uri.fsPath === candidate));
+            if (!configPath && candidates.length > 0) {
+                configPath = candidates[0].fsPath;
+                if (candidates.length > 1) {
+                    this.logger.info(`Several PHPUnit configurations in ${folder.name}, using ${configPath}. Run "Select PHPUnit Configuration" to choose another.`);
+                }
+            }
+        }
+
+        if (!configPath || !fs.existsSync(configPath)) {
+            return undefined;
+        }
+
+        try {
+            const config = parsePhpUnitConfig(fs.readFileSync(configPath, 'utf8'), configPath);
+            this.logger.info(`Using PHPUnit configuration ${configPath} (${config.testSuites.length} test suites)`);
+            return config;
+        } catch (error) {
+            this.logger.error(`Failed to read PHPUnit configuration ${configPath}`, error);
+            return undefined;
+        }
+    }
+
+    private async findConfigurations(folder: vscode.WorkspaceFolder): Promise<vscode.Uri[]> {
+        const pattern = new vscode.RelativePattern(folder, `**/{${PHPUNIT_CONFIG_FILES.join(',')}}`);
+        const files = await vscode.workspace.findFiles(pattern, '**/{vendor,node_modules}/**');
+        return files.sort((a, b) => a.fsPath.length - b.fsPath.length || a.fsPath.localeCompare(b.fsPath));
+    }
+
+    private getConfigurationStateKey(folder: vscode.WorkspaceFolder): string {
+        return `phpunit.configuration:${folder.uri.toString()}`;
+    }
+
+    private async selectConfiguration(): Promise<void> {
+        const folder = (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+            ? await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Workspace folder to configure' })
+            : vscode.workspace.workspaceFolders?.[0];
+        if (!folder) {
+            return;
+        }
+
+        const candidates = await this.findConfigurations(folder);
+        const current = this.configurations.get(folder.uri.toString())?.path;
+        const items: (vscode.QuickPickItem & { value: string })[] = [
+            ...candidates.map(uri => ({
+                label: path.relative(folder.uri.fsPath, uri.fsPath),
+                description: uri.fsPath === current ? 'current' : undefined,
+                value: path.relative(folder.uri.fsPath, uri.fsPath)
+            })),
+            {
+                label: 'No configuration file',
+                description: `discover tests with ${this.files.getPatterns(folder).include.join(', ')}`,
+                value: ''
+            }
+        ];
+
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: `PHPUnit configuration for ${folder.name}` });
+        if (!picked) {
+            return;
+        }
+
+        if (vscode.workspace.getConfiguration('pluginTests', folder.uri).get<string>('phpunit.configuration', '')) {
+            vscode.window.showWarningMessage('The pluginTests.phpunit.configuration setting takes precedence over the selected configuration.');
+        }
+
+        await this.context.workspaceState.update(this.getConfigurationStateKey(folder), picked.value);
+        await this.refreshHandler();
+    }
+
+    private async createTestItem(uri: vscode.Uri, suiteItem?: vscode.TestItem): Promise<vscode.TestItem | undefined> {
         const workspaceFolder = getWorkspaceFolder(uri);
         if (!workspaceFolder) {
             this.logger.warn(`File ${uri.fsPath} is not in a workspace folder`);
@@ -124,9 +467,11 @@ export class PhpUnitTestProvider implements vscode.Disposable {
         
         const testItem = this.controller.createTestItem(id, label, uri);
         testItem.canResolveChildren = true;
-        testItem.description = workspaceFolder.name;
+        this.itemData.set(testItem, { kind: 'file' });
         
-        this.controller.items.add(testItem);
+        this.tree.addFile(testItem, workspaceFolder, suiteItem);
+        this.fileItems.set(uri.fsPath, testItem);
+        this.dependencies.update(uri);
         this.logger.debug(`Added test file: ${label} (${workspaceFolder.name})`);
         
         return testItem;
@@ -143,10 +488,9 @@ export class PhpUnitTestProvider implements vscode.Disposable {
                 return;
             }
 
-            // Only parse file-level items, not class or method items
-            // Check if this is a file item (no :: in the ID)
-            if (item.id.includes('::')) {
-                return; // Already a child item, don't re-resolve
+            // Only parse file-level items, not suites, classes or methods
+            if (this.itemData.get(item)?.kind !== 'file') {
+                return;
             }
 
             // Skip if already has children
@@ -160,10 +504,12 @@ export class PhpUnitTestProvider implements vscode.Disposable {
         }
     }
 
-    private async refreshHandler(token: vscode.CancellationToken): Promise<void> {
+    private async refreshHandler(): Promise<void> {
         try {
             this.logger.info('Refreshing PHPUnit tests...');
             this.controller.items.replace([]);
+            this.fileItems.clear();
+            this.dependencies.clear();
             await this.discoverTests();
         } catch (error) {
             this.logger.error('Error in refreshHandler', error);
@@ -178,322 +524,1148 @@ export class PhpUnitTestProvider implements vscode.Disposable {
         try {
             const document = await vscode.workspace.openTextDocument(fileItem.uri);
             const content = document.getText();
-            const testClass = this.extractTestClass(content);
-
-            if (!testClass) {
-                return;
-            }
+            const testClasses = parsePhpTestFile(content);
 
             fileItem.children.replace([]);
 
-            // Add class-level item
-            const classId = `${fileItem.id}::${testClass.name}`;
-            const classItem = this.controller.createTestItem(classId, testClass.name, fileItem.uri);
-            classItem.range = new vscode.Range(testClass.line, 0, testClass.line, 0);
-            // Don't set canResolveChildren - methods are already added below
+            for (const testClass of testClasses) {
+                // Fully qualified IDs keep same-named classes in different namespaces apart
+                const classId = `${fileItem.id}::${testClass.fqcn}`;
+                const classItem = this.controller.createTestItem(classId, testClass.name, fileItem.uri);
+                classItem.range = new vscode.Range(testClass.line, 0, testClass.line, 0);
+                classItem.tags = toTestTags(testClass.groups);
+                this.itemData.set(classItem, { kind: 'class', className: testClass.fqcn, timeout: testClass.timeout });
+                // Don't set canResolveChildren - methods are already added below
+
+                // Add method-level items
+                for (const method of testClass.methods) {
+                    const methodId = `${classId}::${method.name}`;
+                    const methodItem = this.controller.createTestItem(methodId, method.name, fileItem.uri);
+                    methodItem.range = new vscode.Range(method.line, 0, method.line, 0);
+                    methodItem.tags = toTestTags(method.groups);
+                    const description = method.groups.map(group => `@${group}`);
+                    if (method.hasDataProvider) {
+                        description.push('data provider');
+                    }
+                    methodItem.description = description.join(' ') || undefined;
+                    this.itemData.set(methodItem, {
+                        kind: 'method',
+                        className: testClass.fqcn,
+                        methodName: method.name,
+                        depends: method.depends,
+                        timeout: method.timeout
+                    });
+                    classItem.children.add(methodItem);
+                }
 
-            // Add method-level items
-            for (const method of testClass.methods) {
-                const methodId = `${classId}::${method.name}`;
-                const methodItem = this.controller.createTestItem(methodId, method.name, fileItem.uri);
-                methodItem.range = new vscode.Range(method.line, 0, method.line, 0);
-                classItem.children.add(methodItem);
+                this.getNamespaceItem(fileItem, testClass.namespace).children.add(classItem);
             }
 
-            fileItem.children.add(classItem);
-
-            this.logger.debug(`Parsed ${testClass.methods.length} tests from ${path.basename(fileItem.uri.fsPath)}`);
+            this.history.decorate([fileItem]);
+            const methodCount = testClasses.reduce((total, testClass) => total + testClass.methods.length, 0);
+            this.logger.debug(`Parsed ${methodCount} tests in ${testClasses.length} classes from ${path.basename(fileItem.uri.fsPath)}`);
         } catch (error) {
             this.logger.error(`Failed to parse test file: ${fileItem.uri.fsPath}`, error);
         }
     }
 
-    private extractTestClass(content: string): TestClass | null {
-        const lines = content.split('\n');
-        
-        // Find class declaration
-        const classRegex = /class\s+(\w+Test)\s+extends/;
-        let className = '';
-        let classLine = 0;
-
-        for (let i = 0; i < lines.length; i++) {
-            const match = classRegex.exec(lines[i]);
-            if (match) {
-                className = match[1];
-                classLine = i;
-                break;
-            }
+    /**
+     * The node classes of a namespace go under in a file; the file itself for the global namespace
+     */
+    private getNamespaceItem(fileItem: vscode.TestItem, namespace: string): vscode.TestItem {
+        if (!namespace) {
+            return fileItem;
         }
 
-        if (!className) {
-            return null;
+        const id = `${fileItem.id}::${namespace}`;
+        const existing = fileItem.children.get(id);
+        if (existing) {
+            return existing;
         }
 
-        // Find test methods
-        const methods: TestMethod[] = [];
-        const methodRegex = /^\s*(?:public\s+)?function\s+(test\w+)\s*\(/;
-        const annotationRegex = /@test/;
+        const namespaceItem = this.controller.createTestItem(id, namespace, fileItem.uri);
+        this.itemData.set(namespaceItem, { kind: 'namespace' });
+        fileItem.children.add(namespaceItem);
+        return namespaceItem;
+    }
 
-        for (let i = 0; i < lines.length; i++) {
-            const methodMatch = methodRegex.exec(lines[i]);
-            if (methodMatch) {
-                methods.push({
-                    name: methodMatch[1],
-                    line: i
-                });
-                continue;
-            }
+    private async runHandler(
+        request: vscode.TestRunRequest,
+        token: vscode.CancellationToken,
+        tags?: TagFilter
+    ): Promise<void> {
+        if (request.continuous) {
+            return this.continuous.watch(request, token);
+        }
+        await this.runRequest(request, token, tags);
+    }
 
-            // Check for @test annotation on previous line
-            if (annotationRegex.test(lines[i])) {
-                // Look for the next function
-                for (let j = i + 1; j < lines.length && j < i + 5; j++) {
-                    const funcMatch = /^\s*(?:public\s+)?function\s+(\w+)\s*\(/.exec(lines[j]);
-                    if (funcMatch) {
-                        methods.push({
-                            name: funcMatch[1],
-                            line: j
-                        });
-                        break;
-                    }
+    /**
+     * Run a request once. Returns false when the run was cancelled, either through
+     * `token` or the run's own Stop button.
+     */
+    private async runRequest(
+        request: vscode.TestRunRequest,
+        token: vscode.CancellationToken,
+        tags?: TagFilter
+    ): Promise<boolean> {
+        const run = this.history.track(this.continuous.track(this.controller.createTestRun(request)));
+        // Runs started by our commands can only be stopped through the run's own token
+        const cancellation = new vscode.CancellationTokenSource();
+        const listeners = [token, run.token].map(source => source.onCancellationRequested(() => cancellation.cancel()));
+        if (token.isCancellationRequested) {
+            cancellation.cancel();
+        }
+
+        try {
+            const requested = this.getRequestedItems(request);
+            const { groups, orphans } = groupByWorkspaceFolder(tags ? await this.getTaggedItems(requested, tags) : requested);
+            this.reportOrphans(run, orphans);
+
+            // One PHPUnit process per workspace folder
+            for (const { folder, tests } of groups) {
+                if (cancellation.token.isCancellationRequested) {
+                    tests.forEach(test => run.skipped(test));
+                    continue;
                 }
+
+                await this.runTests(run, folder, tests, cancellation.token, { tags });
             }
+            return !cancellation.token.isCancellationRequested;
+        } finally {
+            run.end();
+            listeners.forEach(listener => listener.dispose());
+            cancellation.dispose();
         }
+    }
 
-        return {
-            name: className,
-            line: classLine,
-            methods
+    /**
+     * The requested items holding at least one test that matches a tag profile;
+     * PHPUnit itself narrows them down with `--group`/`--exclude-group`
+     */
+    private async getTaggedItems(items: vscode.TestItem[], tags: TagFilter): Promise<vscode.TestItem[]> {
+        const hasTaggedTest = (item: vscode.TestItem): boolean => {
+            const kind = this.itemData.get(item)?.kind;
+            if (kind === 'method' || kind === 'dataSet') {
+                return matchesTags(withoutHistoryTags(item.tags), tags);
+            }
+            let found = false;
+            item.children.forEach(child => {
+                found = found || hasTaggedTest(child);
+            });
+            return found;
         };
+
+        const tagged: vscode.TestItem[] = [];
+        for (const item of items) {
+            await this.resolveFileItems(item);
+            if (hasTaggedTest(item)) {
+                tagged.push(item);
+            }
+        }
+        return tagged;
     }
 
-    private async runHandler(
+    private async debugHandler(
         request: vscode.TestRunRequest,
         token: vscode.CancellationToken
     ): Promise<void> {
-        const run = this.controller.createTestRun(request);
-        const testsToRun = request.include ?? this.getAllTests();
+        const run = this.history.track(this.continuous.track(this.controller.createTestRun(request)));
+        const { groups, orphans } = groupByWorkspaceFolder(this.getRequestedItems(request));
+        this.reportOrphans(run, orphans);
 
-        for (const test of testsToRun) {
+        for (const { folder, tests } of groups) {
             if (token.isCancellationRequested) {
-                run.skipped(test);
+                tests.forEach(test => run.skipped(test));
                 continue;
             }
 
-            await this.runTest(run, test, token);
+            const session = await this.startDebugSession(folder, await this.isDockerEnabled(folder));
+            if (!session) {
+                const message = new vscode.TestMessage('Failed to start PHP debug session. Is a PHP debug adapter (e.g. xdebug.php-debug) installed?');
+                tests.forEach(test => run.errored(test, message));
+                continue;
+            }
+
+            try {
+                await this.runTests(run, folder, tests, token, { debug: true });
+            } finally {
+                await vscode.debug.stopDebugging(session);
+            }
         }
 
         run.end();
     }
 
-    private getAllTests(): vscode.TestItem[] {
-        const tests: vscode.TestItem[] = [];
-        this.controller.items.forEach(item => tests.push(item));
-        return tests;
+    private async matrixHandler(
+        request: vscode.TestRunRequest,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        const images = vscode.workspace.getConfiguration('pluginTests').get<string[]>('phpunit.phpVersions', []);
+        if (images.length === 0) {
+            const choice = await vscode.window.showWarningMessage('No PHP versions configured for matrix runs.', 'Open Settings');
+            if (choice) {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'pluginTests.phpunit.phpVersions');
+            }
+            return;
+        }
+        if (!await this.containers.isAvailable()) {
+            vscode.window.showErrorMessage('PHP version matrix runs need Docker, which is not available.');
+            return;
+        }
+
+        const { groups, orphans } = groupByWorkspaceFolder(this.getRequestedItems(request));
+        // Stopping any version's run stops the whole matrix
+        const cancellation = new vscode.CancellationTokenSource();
+        const listeners = [token.onCancellationRequested(() => cancellation.cancel())];
+        if (token.isCancellationRequested) {
+            cancellation.cancel();
+        }
+
+        try {
+            for (const image of images) {
+                if (cancellation.token.isCancellationRequested) {
+                    break;
+                }
+
+                // Named runs keep each version's results apart in the Test Results view; the
+                // image keeps the history from taking version differences for flakiness
+                const run = this.history.track(this.continuous.track(this.controller.createTestRun(request, `PHPUnit on ${image}`)), image);
+                listeners.push(run.token.onCancellationRequested(() => cancellation.cancel()));
+                try {
+                    this.reportOrphans(run, orphans);
+                    for (const { folder, tests } of groups) {
+                        if (cancellation.token.isCancellationRequested) {
+                            tests.forEach(test => run.skipped(test));
+                            continue;
+                        }
+
+                        await this.runTests(run, folder, tests, cancellation.token, { dockerImage: image });
+                    }
+                } finally {
+                    run.end();
+                }
+            }
+        } finally {
+            listeners.forEach(listener => listener.dispose());
+            cancellation.dispose();
+        }
     }
 
-    private async runTest(
-        run: vscode.TestRun,
-        test: vscode.TestItem,
+    private async startDebugSession(workspaceFolder: vscode.WorkspaceFolder, inDocker: boolean): Promise<vscode.DebugSession | undefined> {
+        const port = vscode.workspace.getConfiguration('pluginTests', workspaceFolder.uri).get<number>('phpunit.xdebugPort', 9003);
+        const name = `Debug PHPUnit Tests (${workspaceFolder.name})`;
+
+        // Listen-mode launch config: the adapter waits for Xdebug to connect back on `port`
+        const debugConfig: vscode.DebugConfiguration = {
+            type: 'php',
+            request: 'launch',
+            name,
+            port,
+            pathMappings: getDebugPathMappings(workspaceFolder, inDocker ? DOCKER_ROOT : workspaceFolder.uri.fsPath)
+        };
+
+        let session: vscode.DebugSession | undefined;
+        const listener = vscode.debug.onDidStartDebugSession(s => {
+            if (s.name === name) {
+                session = s;
+            }
+        });
+
+        try {
+            this.logger.info(`Starting PHP debug session on port ${port} for ${workspaceFolder.name}`);
+            const started = await vscode.debug.startDebugging(workspaceFolder, debugConfig);
+            return started ? session : undefined;
+        } catch (error) {
+            this.logger.error('Failed to start PHP debug session', error);
+            return undefined;
+        } finally {
+            listener.dispose();
+        }
+    }
+
+    private async coverageHandler(
+        request: vscode.TestRunRequest,
         token: vscode.CancellationToken
     ): Promise<void> {
-        run.started(test);
+        const run = this.history.track(this.continuous.track(this.controller.createTestRun(request)));
+        const { groups, orphans } = groupByWorkspaceFolder(this.getRequestedItems(request));
+        this.reportOrphans(run, orphans);
+        const reportDir = fs.mkdtempSync(path.join(this.workDir, 'coverage-'));
+        const coverage: LineCoverage = new Map();
 
-        // Ensure children are resolved before running
-        if (test.children.size === 0 && test.canResolveChildren) {
-            await this.parseTestFile(test);
+        try {
+            let index = 0;
+            for (const { folder, tests } of groups) {
+                if (token.isCancellationRequested) {
+                    tests.forEach(test => run.skipped(test));
+                    continue;
+                }
+
+                const coverageFile = path.join(reportDir, `coverage-${index++}.xml`);
+                await this.runTests(run, folder, tests, token, { coverageFile });
+
+                if (fs.existsSync(coverageFile)) {
+                    const inDocker = await this.isDockerEnabled(folder);
+                    // runTests wrote the report in the folder's format
+                    const format = vscode.workspace.getConfiguration('pluginTests', folder.uri).get<CoverageFormat>('phpunit.coverageFormat', 'clover');
+                    const report = parseCoverageReport(fs.readFileSync(coverageFile, 'utf8'), format);
+                    mergeCoverage(coverage, inDocker ? this.mapCoverageToHost(report, folder) : report);
+                } else {
+                    this.logger.warn(`No coverage report produced for ${folder.name}. Is Xdebug or PCOV installed?`);
+                }
+            }
+
+            this.addCoverage(run, coverage);
+        } finally {
+            fs.rmSync(reportDir, { recursive: true, force: true });
+            run.end();
         }
+    }
 
-        // Find the file-level test item
-        let fileTest = test;
-        while (fileTest.parent) {
-            fileTest = fileTest.parent;
+    private mapCoverageToHost(coverage: LineCoverage, workspaceFolder: vscode.WorkspaceFolder): LineCoverage {
+        const mapped: LineCoverage = new Map();
+        for (const [file, lines] of coverage) {
+            mapped.set(toHostPath(file, workspaceFolder.uri.fsPath, DOCKER_ROOT), lines);
         }
+        return mapped;
+    }
 
-        if (!fileTest.uri) {
-            run.errored(test, new vscode.TestMessage('Test has no associated file'));
-            return;
+    private addCoverage(run: vscode.TestRun, coverage: LineCoverage): void {
+        for (const [file, lines] of coverage) {
+            const uri = vscode.Uri.file(file);
+            if (!getWorkspaceFolder(uri)) {
+                continue; // Framework or vendor code outside the workspace
+            }
+
+            const statements = [...lines.entries()].map(([line, hits]) =>
+                new vscode.StatementCoverage(hits, new vscode.Position(line - 1, 0))
+            );
+            const fileCoverage = vscode.FileCoverage.fromDetails(uri, statements);
+            this.coverageDetails.set(fileCoverage, statements);
+            run.addCoverage(fileCoverage);
         }
+        this.logger.info(`Reported coverage for ${coverage.size} files`);
+    }
 
-        const workspaceFolder = getWorkspaceFolder(fileTest.uri);
-        if (!workspaceFolder) {
+    /**
+     * The items a request runs, with folder and directory nodes expanded to the suites or files beneath them
+     */
+    private getRequestedItems(request: vscode.TestRunRequest): vscode.TestItem[] {
+        const roots: vscode.TestItem[] = [];
+        this.controller.items.forEach(item => roots.push(item));
+        return this.tree.expand(getRequestedTests(request, roots));
+    }
+
+    private reportOrphans(run: vscode.TestRun, orphans: vscode.TestItem[]): void {
+        for (const test of orphans) {
             run.errored(test, new vscode.TestMessage('Test file is not in a workspace folder'));
-            return;
+        }
+    }
+
+    /**
+     * Run a batch of tests from one workspace folder in a single PHPUnit process
+     */
+    private async runTests(
+        run: vscode.TestRun,
+        workspaceFolder: vscode.WorkspaceFolder,
+        tests: vscode.TestItem[],
+        token: vscode.CancellationToken,
+        options: RunOptions = {}
+    ): Promise<void> {
+        for (const test of tests) {
+            run.started(test);
+            // Ensure file children are resolved before running, so results can be mapped
+            await this.resolveFileItems(test);
         }
 
-        const config = vscode.workspace.getConfiguration('pluginTests');
+        const config = vscode.workspace.getConfiguration('pluginTests', workspaceFolder.uri);
         const phpunitPath = config.get<string>('phpunit.executable', 'vendor/bin/phpunit');
-        const timeout = config.get<number>('timeout', 30000);
 
-        // Build the filter based on test level
-        let filter = '';
-        if (test.id.includes('::')) {
-            const parts = test.id.split('::');
-            if (parts.length === 3) {
-                // Method level: Class::method
-                filter = `--filter="${parts[1]}::${parts[2]}"`;
-            } else if (parts.length === 2 && !test.uri?.fsPath.endsWith(parts[1])) {
-                // Class level
-                filter = `--filter="${parts[1]}"`;
-            }
+        const inDocker = options.dockerImage !== undefined || await this.isDockerEnabled(workspaceFolder);
+        // Paths handed to PHPUnit, as seen from inside the container when there is one
+        const toRunnerPath = (hostPath: string) => inDocker ? this.toContainerPath(hostPath, workspaceFolder) : hostPath;
+
+        // Results come from the JUnit log, progress from the TeamCity log; testdox keeps the output readable
+        const reportDir = fs.mkdtempSync(path.join(this.workDir, 'run-'));
+        const junitFile = path.join(reportDir, 'junit.xml');
+        const teamcityFile = path.join(reportDir, 'teamcity.log');
+        const mockStateFile = path.join(reportDir, 'mock-state.jsonl');
+
+        const target = this.getRunTarget(workspaceFolder, tests, reportDir, toRunnerPath);
+        const executable = path.isAbsolute(phpunitPath) ? toRunnerPath(phpunitPath) : phpunitPath;
+        const args = [
+            executable,
+            ...target.args,
+            '--testdox',
+            '--log-junit', toRunnerPath(junitFile),
+            '--log-teamcity', toRunnerPath(teamcityFile)
+        ];
+        if (target.filter) {
+            args.push('--filter', target.filter);
+        }
+        if (options.tags?.include.length) {
+            args.push('--group', options.tags.include.join(','));
+        }
+        if (options.tags?.exclude.length) {
+            args.push('--exclude-group', options.tags.exclude.join(','));
         }
 
-        const relativePath = getRelativeToWorkspaceFolder(fileTest.uri);
-        const args = [phpunitPath, relativePath.replace(/\\/g, '/'), '--testdox'];
-        if (filter) {
-            args.push(filter);
+        if (options.debug) {
+            const port = config.get<number>('phpunit.xdebugPort', 9003);
+            args.unshift(
+                '-dxdebug.mode=debug',
+                '-dxdebug.start_with_request=yes',
+                `-dxdebug.client_host=${inDocker ? 'host.docker.internal' : '127.0.0.1'}`,
+                `-dxdebug.client_port=${port}`
+            );
         }
 
-        this.logger.info(`Running: php ${args.join(' ')}`);
-        run.appendOutput(`Running: php ${args.join(' ')}\r\n`);
+        if (options.coverageFile) {
+            const driver = config.get<string>('phpunit.coverageDriver', 'xdebug');
+            const format = config.get<CoverageFormat>('phpunit.coverageFormat', 'clover');
+            args.unshift(driver === 'pcov' ? '-dpcov.enabled=1' : '-dxdebug.mode=coverage');
+            args.push(`--coverage-${format}`, toRunnerPath(options.coverageFile));
+        }
 
+        // No shell, so filters reach PHPUnit without quoting or expansion
         const spawnOptions: SpawnOptions = {
             cwd: workspaceFolder.uri.fsPath,
-            timeout,
-            shell: true
+            env: { ...process.env, [MOCK_STATE_FILE_VARIABLE]: mockStateFile }
         };
 
-        return new Promise<void>((resolve) => {
-            const proc = spawn('php', args, spawnOptions);
+        const spec = this.getContainerSpec(workspaceFolder, options.dockerImage);
+        const hostPath = workspaceFolder.uri.fsPath;
+        const toHostOutput = (text: string) => inDocker ? mapContainerPaths(text, DOCKER_ROOT, hostPath) : text;
 
-            let stdout = '';
-            let stderr = '';
+        try {
+            let command = 'php';
+            if (inDocker) {
+                const container = await this.containers.acquire(spec);
+                args.unshift('exec', '-w', DOCKER_ROOT, '-e', `${MOCK_STATE_FILE_VARIABLE}=${toRunnerPath(mockStateFile)}`, container, 'php');
+                command = 'docker';
+            }
 
-            proc.stdout?.on('data', (data: Buffer) => {
-                const text = data.toString();
-                stdout += text;
-                run.appendOutput(text.replace(/\n/g, '\r\n'));
-            });
+            this.logger.info(`Running: ${command} ${args.join(' ')}`);
+            run.appendOutput(`Running: ${command} ${args.join(' ')}\r\n`);
 
-            proc.stderr?.on('data', (data: Buffer) => {
-                const text = data.toString();
-                stderr += text;
-                run.appendOutput(`[stderr] ${text.replace(/\n/g, '\r\n')}`);
-            });
+            await new Promise<void>((resolve) => {
+                const proc = spawn(command, args, spawnOptions);
 
-            token.onCancellationRequested(() => {
-                proc.kill();
-                run.skipped(test);
-                resolve();
-            });
+                let output = '';
+                let timedOut: TimedOut | undefined;
 
-            proc.on('close', (code) => {
-                // Parse testdox output to update individual test results
-                this.parseResults(run, test, stdout, code === 0);
-                resolve();
-            });
+                // Follow the TeamCity log and give each test its own timeout.
+                // Stepping through a test can take arbitrarily long, so debug runs are never timed out.
+                const methodItems = this.indexMethodItems(tests);
+                let running: vscode.TestItem | undefined;
+                let lastProgress: string | undefined;
+                const watchdog = new TestWatchdog(timeout => {
+                    timedOut = { test: running, timeout };
+                    this.logger.warn(`PHPUnit test timed out after ${timeout} ms: ${running?.label ?? 'outside a test'}`);
+                    proc.kill();
+                });
+                const checkProgress = () => {
+                    const progress = this.readProgress(teamcityFile);
+                    const key = `${progress.finished.length}:${progress.running?.name ?? ''}`;
+                    if (key === lastProgress) {
+                        return;
+                    }
+                    lastProgress = key;
+                    running = progress.running
+                        ? methodItems.get(`${progress.running.className}::${getMethodName(progress.running.name)}`)
+                        : undefined;
+                    watchdog.arm(options.debug ? 0 : this.getTimeout(workspaceFolder, running));
+                };
+                checkProgress();
+                const poll = setInterval(checkProgress, 250);
+                const stopWatching = () => {
+                    clearInterval(poll);
+                    watchdog.dispose();
+                };
+
+                proc.stdout?.on('data', (data: Buffer) => {
+                    const text = toHostOutput(data.toString());
+                    output += text;
+                    run.appendOutput(text.replace(/\n/g, '\r\n'));
+                });
 
-            proc.on('error', (error) => {
-                run.errored(test, new vscode.TestMessage(error.message));
-                resolve();
+                proc.stderr?.on('data', (data: Buffer) => {
+                    const text = toHostOutput(data.toString());
+                    output += text;
+                    run.appendOutput(`[stderr] ${text.replace(/\n/g, '\r\n')}`);
+                });
+
+                // Killing `docker exec` leaves PHPUnit running in the container, so the container goes too
+                const removeContainer = () => {
+                    if (inDocker) {
+                        this.containers.remove(spec).catch(error => this.logger.error('Failed to remove PHPUnit container', error));
+                    }
+                };
+
+                // The killed process still closes, but its tests were reported as skipped already
+                let cancelled = false;
+                const cancellation = token.onCancellationRequested(() => {
+                    cancelled = true;
+                    cancellation.dispose();
+                    stopWatching();
+                    proc.kill();
+                    removeContainer();
+                    tests.forEach(test => run.skipped(test));
+                    resolve();
+                });
+
+                proc.on('close', (code, signal) => {
+                    cancellation.dispose();
+                    stopWatching();
+                    if (cancelled) {
+                        return;
+                    }
+                    if (signal) {
+                        removeContainer();
+                    }
+                    const results = this.loadResults(junitFile, teamcityFile, inDocker ? hostPath : undefined);
+                    const mockStates = this.loadMockStates(mockStateFile);
+                    this.parseResults(run, tests, results, mockStates, code, output, timedOut);
+                    resolve();
+                });
+
+                proc.on('error', (error) => {
+                    cancellation.dispose();
+                    stopWatching();
+                    if (cancelled) {
+                        return;
+                    }
+                    tests.forEach(test => run.errored(test, new vscode.TestMessage(error.message)));
+                    resolve();
+                });
             });
-        });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            tests.forEach(test => run.errored(test, new vscode.TestMessage(message)));
+        } finally {
+            fs.rmSync(reportDir, { recursive: true, force: true });
+        }
     }
 
-    private parseResults(run: vscode.TestRun, test: vscode.TestItem, output: string, allPassed: boolean): void {
-        // Parse testdox output format:
-        // ✔ Test name here
-        // ✘ Failed test name
-        const lines = output.split('\n');
-        
-        // More flexible regex - match various checkmark/cross characters
-        const passRegex = /^\s*[✔✓√]\s+(.+)$/;
-        const failRegex = /^\s*[✘✗×]\s+(.+)$/;
-        
-        // Build a map of testdox names to their test items
-        const testMap = new Map<string, vscode.TestItem>();
-        
-        const methodToTestdox = (methodName: string): string => {
-            // testSanitizeStrRemovesDots -> sanitize str removes dots
-            return methodName
-                .replace(/^test_?/i, '')  // Remove test prefix
-                .replace(/_/g, ' ')        // Replace underscores with spaces
-                .replace(/([a-z])([A-Z])/g, '$1 $2')  // Add space before capitals
-                .toLowerCase()
-                .trim();
+    /**
+     * Decide what PHPUnit is pointed at. PHPUnit 10 takes a single path argument,
+     * so a batch spanning several files runs the test suites involved or, without
+     * suites, a generated configuration listing the files. A `--filter` narrows
+     * the target down whenever it holds more than was requested.
+     */
+    private getRunTarget(
+        workspaceFolder: vscode.WorkspaceFolder,
+        tests: vscode.TestItem[],
+        reportDir: string,
+        toRunnerPath: (hostPath: string) => string
+    ): RunTarget {
+        const phpunitConfig = this.configurations.get(workspaceFolder.uri.toString());
+        const configArgs = phpunitConfig ? ['--configuration', toRunnerPath(phpunitConfig.path)] : [];
+        const kinds = tests.map(test => this.itemData.get(test)?.kind);
+
+        const files = new Set<vscode.TestItem>();
+        const suites = new Set<string>();
+        for (const test of tests) {
+            const data = this.itemData.get(test);
+            if (data?.kind === 'suite' && data.suiteName) {
+                suites.add(data.suiteName);
+                continue;
+            }
+            const fileItem = this.getFileItem(test);
+            if (fileItem) {
+                files.add(fileItem);
+                const suiteName = this.getSuiteName(fileItem);
+                if (suiteName) {
+                    suites.add(suiteName);
+                }
+            }
+        }
+
+        if (files.size === 1 && !kinds.includes('suite')) {
+            const fileItem = [...files][0];
+            return {
+                args: [...configArgs, getRelativeToWorkspaceFolder(fileItem.uri!).replace(/\\/g, '/')],
+                filter: kinds.every(kind => kind === 'file') ? undefined : this.buildFilter(tests)
+            };
+        }
+
+        if (suites.size > 0) {
+            return {
+                args: [...configArgs, '--testsuite', [...suites].join(',')],
+                filter: kinds.every(kind => kind === 'suite') ? undefined : this.buildFilter(tests)
+            };
+        }
+
+        const batchConfig = path.join(reportDir, 'phpunit.xml');
+        const testFiles = [...files].map(file => toRunnerPath(file.uri!.fsPath));
+        fs.writeFileSync(batchConfig, this.createBatchConfiguration(workspaceFolder, phpunitConfig, testFiles, toRunnerPath));
+        return {
+            args: ['--configuration', toRunnerPath(batchConfig)],
+            filter: kinds.every(kind => kind === 'file') ? undefined : this.buildFilter(tests)
         };
-        
-        const collectTests = (item: vscode.TestItem) => {
-            item.children.forEach(child => {
-                const testdoxName = methodToTestdox(child.label);
-                testMap.set(testdoxName, child);
-                this.logger.debug(`Mapped '${testdoxName}' -> ${child.label}`);
-                collectTests(child);
-            });
+    }
+
+    /**
+     * A configuration running exactly the given files: the folder's own configuration
+     * with its test suites replaced, so `<php>` settings and the like still apply
+     */
+    private createBatchConfiguration(
+        workspaceFolder: vscode.WorkspaceFolder,
+        phpunitConfig: PhpUnitConfig | undefined,
+        files: string[],
+        toRunnerPath: (hostPath: string) => string
+    ): string {
+        const content = phpunitConfig
+            ? fs.readFileSync(phpunitConfig.path, 'utf8')
+            : '<?xml version="1.0" encoding="UTF-8"?>\n<phpunit>\n</phpunit>\n';
+        const configPath = phpunitConfig?.path ?? path.join(workspaceFolder.uri.fsPath, 'phpunit.xml');
+        return createBatchConfiguration(content, configPath, files, toRunnerPath);
+    }
+
+    private async isDockerEnabled(workspaceFolder: vscode.WorkspaceFolder): Promise<boolean> {
+        const useDocker = vscode.workspace.getConfiguration('pluginTests', workspaceFolder.uri).get<boolean>('phpunit.useDocker', false);
+        return useDocker && await this.containers.isAvailable();
+    }
+
+    private getContainerSpec(workspaceFolder: vscode.WorkspaceFolder, dockerImage?: string): ContainerSpec {
+        const image = dockerImage ?? vscode.workspace.getConfiguration('pluginTests', workspaceFolder.uri).get<string>('phpunit.dockerImage', 'php:8.2-cli');
+        return {
+            image,
+            hostPath: toDockerPath(workspaceFolder.uri.fsPath),
+            mountPath: DOCKER_ROOT,
+            extraMounts: [{ hostPath: toDockerPath(this.workDir), mountPath: DOCKER_WORK_DIR }],
+            // Lets Xdebug reach the debug adapter on the host (Docker Desktop provides this name already)
+            runArgs: ['--add-host=host.docker.internal:host-gateway']
         };
-        collectTests(test);
+    }
 
-        this.logger.debug(`Test map has ${testMap.size} entries`);
-        
-        // Debug: show the lines we're checking
-        for (const line of lines) {
-            if (line.trim().length > 0 && !line.includes('PHPUnit') && !line.includes('Runtime') && !line.includes('Configuration') && !line.includes('Time:') && !line.includes('OK (')) {
-                this.logger.debug(`Checking line: '${line}'`);
-            }
-        }
-
-        let foundResults = false;
-        for (const line of lines) {
-            const trimmedLine = line.trim();
-            const passMatch = passRegex.exec(trimmedLine);
-            if (passMatch) {
-                const testName = passMatch[1].trim().toLowerCase();
-                this.logger.debug(`Looking for passed test: '${testName}'`);
-                const childTest = testMap.get(testName);
-                if (childTest) {
-                    run.started(childTest);
-                    run.passed(childTest);
-                    foundResults = true;
-                    this.logger.debug(`Marked ${childTest.label} as passed`);
+    private toContainerPath(hostPath: string, workspaceFolder: vscode.WorkspaceFolder): string {
+        return toContainerPath(hostPath, workspaceFolder.uri.fsPath, DOCKER_ROOT)
+            ?? toContainerPath(hostPath, this.workDir, DOCKER_WORK_DIR)
+            ?? hostPath;
+    }
+
+    private getFileItem(test: vscode.TestItem): vscode.TestItem | undefined {
+        let item: vscode.TestItem | undefined = test;
+        while (item && this.itemData.get(item)?.kind !== 'file') {
+            item = item.parent;
+        }
+        return item?.uri ? item : undefined;
+    }
+
+    /**
+     * The `<testsuite>` a file item was discovered in, if any
+     */
+    private getSuiteName(fileItem: vscode.TestItem): string | undefined {
+        for (let item = fileItem.parent; item; item = item.parent) {
+            const data = this.itemData.get(item);
+            if (data?.kind === 'suite') {
+                return data.suiteName;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Build a `--filter` regex selecting exactly the given items.
+     * PHPUnit matches it case-insensitively against `Namespace\Class::method with data set ...`.
+     */
+    private buildFilter(tests: vscode.TestItem[]): string | undefined {
+        const patterns = tests.flatMap(test => this.getFilterPatterns(test));
+        return patterns.length > 0 ? patterns.join('|') : undefined;
+    }
+
+    private getFilterPatterns(test: vscode.TestItem): string[] {
+        const data = this.itemData.get(test);
+        if (!data) {
+            return [];
+        }
+
+        if (data.kind === 'suite' || data.kind === 'file' || data.kind === 'namespace') {
+            const patterns: string[] = [];
+            test.children.forEach(child => patterns.push(...this.getFilterPatterns(child)));
+            return patterns;
+        }
+        if (!data.className) {
+            return [];
+        }
+
+        const classPattern = `^${escapeRegExp(data.className)}::`;
+        if (data.kind === 'class' || !data.methodName) {
+            return [classPattern];
+        }
+
+        const methodPattern = `${classPattern}${escapeRegExp(data.methodName)}`;
+        if (data.kind === 'method' || !data.dataSet) {
+            // Dependencies have to run too, or PHPUnit skips the test
+            const methods = [data.methodName, ...(data.depends ?? [])].map(escapeRegExp);
+            return [methods.length > 1
+                ? `${classPattern}(${methods.join('|')})( with data set .*)?$`
+                : `${methodPattern}( with data set .*)?$`];
+        }
+
+        // Spelled out rather than PHPUnit's method#index / method@name shorthand, which can't be combined
+        const dataSet = data.dataSet.startsWith('#')
+            ? escapeRegExp(data.dataSet)
+            : `"${escapeRegExp(data.dataSet.slice(1, -1))}"`;
+        return [`${methodPattern} with data set ${dataSet}$`];
+    }
+
+    private readProgress(teamcityFile: string): ReturnType<typeof parseTeamCityProgress> {
+        try {
+            return parseTeamCityProgress(fs.readFileSync(teamcityFile, 'utf8'));
+        } catch {
+            return { finished: [] };
+        }
+    }
+
+    /**
+     * Timeout of a PHPUnit test (by its method item), or the folder default outside a known test
+     */
+    private getTimeout(workspaceFolder: vscode.WorkspaceFolder, methodItem: vscode.TestItem | undefined): number {
+        const data = methodItem ? this.itemData.get(methodItem) : undefined;
+        if (!methodItem?.uri || !data) {
+            return vscode.workspace.getConfiguration('pluginTests', workspaceFolder.uri).get<number>('timeout', 30000);
+        }
+        const classData = methodItem.parent ? this.itemData.get(methodItem.parent) : undefined;
+        return resolveTimeout(workspaceFolder, methodItem.uri.fsPath, data.methodName, {
+            file: classData?.timeout,
+            test: data.timeout
+        });
+    }
+
+    /**
+     * Results of a run: the JUnit report, or what the TeamCity log got to if
+     * the run was killed before PHPUnit could write the report
+     */
+    private loadResults(junitFile: string, teamcityFile: string, containerHostPath?: string): JUnitTestCase[] {
+        let results: JUnitTestCase[] = [];
+        try {
+            if (fs.existsSync(junitFile)) {
+                results = parseJUnitReport(fs.readFileSync(junitFile, 'utf8'));
+            } else {
+                results = this.readProgress(teamcityFile).finished;
+            }
+            // Paths reported from a container point into its mount of the workspace folder
+            if (containerHostPath) {
+                for (const result of results) {
+                    result.file = result.file ? toHostPath(result.file, containerHostPath, DOCKER_ROOT) : undefined;
+                    result.message = result.message ? mapContainerPaths(result.message, DOCKER_ROOT, containerHostPath) : undefined;
+                    result.stack = result.stack.map(frame => ({ ...frame, file: toHostPath(frame.file, containerHostPath, DOCKER_ROOT) }));
+                }
+            }
+        } catch (error) {
+            this.logger.warn('Failed to read PHPUnit JUnit report', error);
+        }
+        return results;
+    }
+
+    /**
+     * Mock state snapshots of failed tests by `Class::test name`, recorded when the
+     * tests use the framework's MockStateExtension
+     */
+    private loadMockStates(mockStateFile: string): Map<string, MockStateSnapshot> {
+        const snapshots = new Map<string, MockStateSnapshot>();
+        try {
+            if (fs.existsSync(mockStateFile)) {
+                for (const snapshot of parseMockStateLog(fs.readFileSync(mockStateFile, 'utf8'))) {
+                    snapshots.set(`${snapshot.className}::${getSnapshotTestName(snapshot)}`, snapshot);
                 }
+            }
+        } catch (error) {
+            this.logger.warn('Failed to read PHPUnit mock state', error);
+        }
+        return snapshots;
+    }
+
+    /**
+     * Index method items by Class::method; a data set item resolves to its method
+     */
+    private indexMethodItems(tests: vscode.TestItem[]): Map<string, vscode.TestItem> {
+        const methodItems = new Map<string, vscode.TestItem>();
+        const collectTests = (item: vscode.TestItem) => {
+            const data = this.itemData.get(item);
+            if (data?.kind === 'method') {
+                methodItems.set(`${data.className}::${data.methodName}`, item);
+            } else if (data?.kind === 'dataSet' && item.parent) {
+                methodItems.set(`${data.className}::${data.methodName}`, item.parent);
+            }
+            item.children.forEach(collectTests);
+        };
+        tests.forEach(collectTests);
+        return methodItems;
+    }
+
+    private parseResults(
+        run: vscode.TestRun,
+        tests: vscode.TestItem[],
+        results: JUnitTestCase[],
+        mockStates: Map<string, MockStateSnapshot>,
+        exitCode: number | null,
+        output: string,
+        timedOut?: TimedOut
+    ): void {
+        const methodItems = this.indexMethodItems(tests);
+
+        // Results per method item, with data sets also reported on their own child items
+        const resultsByItem = new Map<vscode.TestItem, JUnitTestCase[]>();
+        for (const result of results) {
+            const item = methodItems.get(`${result.className}::${getMethodName(result.name)}`);
+            if (!item) {
+                this.logger.debug(`No test item for ${result.className}::${result.name}`);
                 continue;
             }
+            const itemResults = resultsByItem.get(item) ?? [];
+            itemResults.push(result);
+            resultsByItem.set(item, itemResults);
+        }
 
-            const failMatch = failRegex.exec(trimmedLine);
-            if (failMatch) {
-                const testName = failMatch[1].trim().toLowerCase();
-                this.logger.debug(`Looking for failed test: '${testName}'`);
-                const childTest = testMap.get(testName);
-                if (childTest) {
-                    run.started(childTest);
-                    run.failed(childTest, new vscode.TestMessage('Test failed'));
-                    foundResults = true;
+        for (const [item, itemResults] of resultsByItem) {
+            for (const result of itemResults) {
+                const dataSet = getDataSetName(result.name);
+                if (dataSet !== undefined) {
+                    this.reportResult(run, this.getOrCreateDataSetItem(item, dataSet), [result], mockStates);
                 }
             }
+            this.reportResult(run, item, itemResults, mockStates);
         }
 
-        this.logger.debug(`Found results: ${foundResults}`);
+        this.logger.debug(`Mapped ${resultsByItem.size} of ${methodItems.size} tests from ${results.length} JUnit results`);
 
-        // If we couldn't parse individual results, mark the whole test
-        if (!foundResults) {
-            if (allPassed) {
-                run.passed(test);
-            } else {
-                run.failed(test, new vscode.TestMessage('Test failed'));
+        // Keep what finished, mark the hanging test as timed out and the rest as never run
+        if (timedOut) {
+            const message = new vscode.TestMessage(formatTimeoutMessage(timedOut.timeout));
+            for (const item of new Set(methodItems.values())) {
+                if (resultsByItem.has(item)) {
+                    continue;
+                }
+                run.started(item);
+                // Without a known culprit (e.g. a hanging bootstrap) every remaining test is affected
+                if (!timedOut.test || item === timedOut.test) {
+                    run.errored(item, message);
+                } else {
+                    run.skipped(item);
+                }
+            }
+            if (methodItems.size === 0) {
+                tests.forEach(test => run.errored(test, message));
             }
+            return;
+        }
+
+        // If nothing could be mapped (e.g. PHPUnit failed before running any test), mark the requested tests
+        if (resultsByItem.size === 0) {
+            const message = new vscode.TestMessage(output.trim() || `PHPUnit exited with code ${exitCode}`);
+            for (const test of tests) {
+                if (exitCode === 0) {
+                    run.passed(test);
+                } else {
+                    run.errored(test, message);
+                }
+            }
+        }
+    }
+
+    /**
+     * Data sets only become known once PHPUnit has run the method, so their items are added on demand
+     */
+    private getOrCreateDataSetItem(methodItem: vscode.TestItem, dataSet: string): vscode.TestItem {
+        const id = `${methodItem.id} with data set ${dataSet}`;
+        const existing = methodItem.children.get(id);
+        if (existing) {
+            return existing;
+        }
+
+        const methodData = this.itemData.get(methodItem);
+        const dataSetItem = this.controller.createTestItem(id, dataSet, methodItem.uri);
+        dataSetItem.range = methodItem.range;
+        // The history tags its items itself
+        dataSetItem.tags = withoutHistoryTags(methodItem.tags);
+        this.itemData.set(dataSetItem, {
+            kind: 'dataSet',
+            className: methodData?.className,
+            methodName: methodData?.methodName,
+            dataSet
+        });
+        methodItem.children.add(dataSetItem);
+        this.history.decorate([dataSetItem]);
+        return dataSetItem;
+    }
+
+    private reportResult(
+        run: vscode.TestRun,
+        item: vscode.TestItem,
+        results: JUnitTestCase[],
+        mockStates: Map<string, MockStateSnapshot>
+    ): void {
+        const duration = results.reduce((total, result) => total + result.duration, 0);
+        const outcome = this.combineOutcomes(results.map(result => result.outcome));
+        const messages = results
+            .filter(result => result.outcome === outcome)
+            .flatMap(result => {
+                const message = this.createTestMessage(result, item);
+                const snapshot = mockStates.get(`${result.className}::${result.name}`);
+                return snapshot ? [message, this.createMockStateMessage(snapshot, message)] : [message];
+            });
+
+        run.started(item);
+        switch (outcome) {
+            case 'errored':
+                run.errored(item, messages, duration);
+                break;
+            case 'failed':
+                run.failed(item, messages, duration);
+                break;
+            case 'skipped':
+                run.skipped(item);
+                break;
+            case 'risky':
+                // Risky tests don't fail the run in PHPUnit either; surface the reason in the output
+                for (const result of results.filter(r => r.outcome === 'risky')) {
+                    run.appendOutput(`Risky: ${result.name}: ${result.message ?? ''}\r\n`, undefined, item);
+                }
+                run.passed(item, duration);
+                break;
+            default:
+                run.passed(item, duration);
         }
     }
 
+    private combineOutcomes(outcomes: JUnitOutcome[]): JUnitOutcome {
+        const precedence: JUnitOutcome[] = ['errored', 'failed', 'risky', 'passed', 'skipped'];
+        return precedence.find(outcome => outcomes.includes(outcome)) ?? 'passed';
+    }
+
+    private createTestMessage(result: JUnitTestCase, item: vscode.TestItem): vscode.TestMessage {
+        const lines: string[] = [];
+        if (result.name !== getMethodName(result.name)) {
+            lines.push(result.name);
+        }
+
+        const comparison = result.message ? parseComparisonDiff(result.message) : undefined;
+        if (result.outcome === 'errored' && result.type) {
+            lines.push(`${result.type}: ${result.message ?? ''}`);
+        } else if (comparison) {
+            lines.push(comparison.summary);
+        } else {
+            lines.push(result.message || (result.outcome === 'skipped' ? 'Test skipped' : 'Test failed'));
+        }
+        if (result.stack.length > 0) {
+            lines.push('', ...result.stack.map(frame => `${frame.file}:${frame.line}`));
+        }
+
+        const text = lines.join('\n');
+        const message = comparison && result.outcome === 'failed'
+            ? vscode.TestMessage.diff(text, comparison.expected, comparison.actual)
+            : new vscode.TestMessage(text);
+
+        // Point at the failing line in the test file, falling back to the innermost frame
+        const frame = result.stack.find(f => item.uri && path.resolve(f.file) === path.resolve(item.uri.fsPath)) ?? result.stack[0];
+        if (frame) {
+            message.location = new vscode.Location(vscode.Uri.file(frame.file), new vscode.Position(frame.line - 1, 0));
+        }
+
+        return message;
+    }
+
+    /**
+     * The mock state at the time of a failure, shown next to the failure message
+     */
+    private createMockStateMessage(snapshot: MockStateSnapshot, failure: vscode.TestMessage): vscode.TestMessage {
+        const message = new vscode.TestMessage(formatMockState(snapshot));
+        message.location = failure.location;
+        return message;
+    }
+
+    /**
+     * Parse every unresolved file item at or below the given item
+     */
+    private async resolveFileItems(item: vscode.TestItem): Promise<void> {
+        if (this.itemData.get(item)?.kind === 'file') {
+            if (item.children.size === 0 && item.canResolveChildren) {
+                await this.parseTestFile(item);
+            }
+            return;
+        }
+        const children: vscode.TestItem[] = [];
+        item.children.forEach(child => children.push(child));
+        for (const child of children) {
+            await this.resolveFileItems(child);
+        }
+    }
+
+    /**
+     * The test files that `require`/`include` a PHP file or use a class it declares
+     */
+    async getTestsForSourceFile(uri: vscode.Uri): Promise<vscode.TestItem[]> {
+        let declaredClasses: string[] = [];
+        if (uri.fsPath.endsWith('.php')) {
+            try {
+                declaredClasses = extractPhpDeclarations(await fs.promises.readFile(uri.fsPath, 'utf8'));
+            } catch {
+                // Deleted; only path references can still match
+            }
+        }
+
+        return this.dependencies.getTestFiles(uri.fsPath, declaredClasses)
+            .map(file => this.fileItems.get(file))
+            .filter((item): item is vscode.TestItem => item !== undefined);
+    }
+
+    get onDidChangeDependencies(): vscode.Event<void> {
+        return this.dependencies.onDidChange;
+    }
+
+    /**
+     * Run a test file, or the tests that exercise a source file. Returns false if there are none.
+     */
+    async runTestsForFile(uri: vscode.Uri): Promise<boolean> {
+        const tests = await this.getAffectedTests(uri);
+        if (tests.length === 0) {
+            return false;
+        }
+
+        const tokenSource = new vscode.CancellationTokenSource();
+        this.runHandler(new vscode.TestRunRequest(tests, undefined, this.runProfile), tokenSource.token)
+            .catch(error => this.logger.error('Failed to run PHPUnit tests for file', error))
+            .finally(() => tokenSource.dispose());
+        return true;
+    }
+
+    /**
+     * Run the flaky tests `times` times in a row, each time as a run of its own so every
+     * repetition adds to their history; stopping one of the runs ends the repetitions.
+     * Returns how many flaky tests there are.
+     */
+    async runFlakyTests(times: number, token: vscode.CancellationToken): Promise<number> {
+        const tests = this.history.getFlakyTests();
+        for (let i = 0; i < times && tests.length > 0; i++) {
+            if (!await this.runRequest(new vscode.TestRunRequest(tests, undefined, this.runProfile), token)) {
+                break;
+            }
+        }
+        return tests.length;
+    }
+
+    /**
+     * Re-run the tests whose last result was a failure or error. Returns false when there are none.
+     */
+    runFailedTests(): boolean {
+        const tests = this.continuous.getFailedTests();
+        if (tests.length === 0) {
+            return false;
+        }
+
+        const tokenSource = new vscode.CancellationTokenSource();
+        this.runHandler(new vscode.TestRunRequest(tests, undefined, this.runProfile), tokenSource.token)
+            .catch(error => this.logger.error('Failed to re-run failed PHPUnit tests', error))
+            .finally(() => tokenSource.dispose());
+        return true;
+    }
+
+    /**
+     * Run an item over and over until one of its tests fails, at most `maxRuns` times.
+     * Stopping one of the runs ends the loop. Returns how many runs completed and
+     * whether the last of them failed.
+     */
+    async runUntilFailure(
+        item: vscode.TestItem,
+        maxRuns: number,
+        token: vscode.CancellationToken,
+        onRun?: (run: number) => void
+    ): Promise<{ runs: number; failed: boolean }> {
+        for (let i = 1; i <= maxRuns; i++) {
+            onRun?.(i);
+            if (!await this.runRequest(new vscode.TestRunRequest([item], undefined, this.runProfile), token)) {
+                return { runs: i - 1, failed: false };
+            }
+            if (this.continuous.isFailing(item)) {
+                return { runs: i, failed: true };
+            }
+        }
+        return { runs: maxRuns, failed: false };
+    }
+
+    /**
+     * Every test item within a test file (namespaces, classes, tests, data sets), parsing the file if needed
+     */
+    async getTestsInFile(uri: vscode.Uri): Promise<vscode.TestItem[]> {
+        const fileItem = this.fileItems.get(uri.fsPath);
+        if (!fileItem) {
+            return [];
+        }
+        if (fileItem.children.size === 0) {
+            await this.parseTestFile(fileItem);
+        }
+
+        const tests: vscode.TestItem[] = [];
+        const visit = (item: vscode.TestItem) => {
+            tests.push(item);
+            item.children.forEach(visit);
+        };
+        fileItem.children.forEach(visit);
+        return tests;
+    }
+
+    /**
+     * The tests a change to a file affects: a test file's own tests, or those exercising a source file
+     */
+    private async getAffectedTests(uri: vscode.Uri): Promise<vscode.TestItem[]> {
+        const fileItem = this.fileItems.get(uri.fsPath);
+        return fileItem ? [fileItem] : this.getTestsForSourceFile(uri);
+    }
+
     private async onTestFileCreated(uri: vscode.Uri): Promise<void> {
         this.logger.debug(`Test file created: ${uri.fsPath}`);
-        await this.createTestItem(uri);
+        const folder = getWorkspaceFolder(uri);
+        if (!folder || !this.isAllowedWorkspaceFolder(uri) || this.fileItems.has(uri.fsPath)) {
+            return;
+        }
+
+        // With a configuration file, only files belonging to one of its suites are tests
+        const config = this.configurations.get(folder.uri.toString());
+        if (config && config.testSuites.length > 0) {
+            const suite = config.testSuites.find(s => isInTestSuite(s, uri.fsPath));
+            if (await this.files.isExcluded(folder, uri)) {
+                return;
+            }
+            const suiteItem = suite ? this.tree.getFolderItem(folder).children.get(`${config.path}#${suite.name}`) : undefined;
+            if (suiteItem) {
+                await this.createTestItem(uri, suiteItem);
+                await this.continuous.fileChanged(uri);
+            }
+            return;
+        }
+
+        if (await this.files.isTestFile(uri)) {
+            await this.createTestItem(uri);
+            await this.continuous.fileChanged(uri);
+        }
     }
 
     private async onTestFileChanged(uri: vscode.Uri): Promise<void> {
-        const existing = this.controller.items.get(uri.fsPath);
+        const existing = this.fileItems.get(uri.fsPath);
         if (existing) {
-            await this.parseTestFile(existing);
+            await Promise.all([this.parseTestFile(existing), this.dependencies.update(uri)]);
+            await this.continuous.fileChanged(uri);
         }
     }
 
     private onTestFileDeleted(uri: vscode.Uri): void {
         this.logger.debug(`Test file deleted: ${uri.fsPath}`);
-        this.controller.items.delete(uri.fsPath);
+        const existing = this.fileItems.get(uri.fsPath);
+        if (existing) {
+            this.tree.removeFile(existing);
+            this.fileItems.delete(uri.fsPath);
+            this.dependencies.remove(uri);
+        }
     }
 
     dispose(): void {
-        for (const disposable of this.disposables) {
+        for (const disposable of [...this.disposables, ...this.watchers, ...this.tagProfiles]) {
             disposable.dispose();
         }
+        fs.rmSync(this.workDir, { recursive: true, force: true });
     }
 }
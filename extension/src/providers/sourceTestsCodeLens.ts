@@ -0,0 +1,56 @@
+/**
+ * Source File Tests CodeLens
+ *
+ * Shows a "Run Tests" lens at the top of plugin scripts and PHP files that
+ * tests exercise, according to the providers' dependency indexes.
+ */
+
+import * as vscode from 'vscode';
+
+export interface SourceTestFinder {
+    getTestsForSourceFile(uri: vscode.Uri): Promise<vscode.TestItem[]>;
+    readonly onDidChangeDependencies: vscode.Event<void>;
+}
+
+export class SourceTestsCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private finders: SourceTestFinder[] = [];
+    /** Subscriptions to the finders' dependency changes */
+    private subscriptions: vscode.Disposable[] = [];
+    private changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+    /**
+     * Replace the finders, e.g. when a provider is enabled or disabled
+     */
+    setFinders(finders: SourceTestFinder[]): void {
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.finders = finders;
+        this.subscriptions = finders.map(finder => finder.onDidChangeDependencies(() => this.changeEmitter.fire()));
+        this.changeEmitter.fire();
+    }
+
+    async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+        const tests = (await Promise.all(this.finders.map(finder => finder.getTestsForSourceFile(document.uri)))).flat();
+        if (tests.length === 0 || token.isCancellationRequested) {
+            return [];
+        }
+
+        const title = tests.length === 1
+            ? `$(play) Run Tests (${tests[0].label})`
+            : `$(play) Run Tests (${tests.length} files)`;
+        return [
+            new vscode.CodeLens(new vscode.Range(0, 0, 0, 0), {
+                title,
+                tooltip: tests.map(test => test.label).join('\n'),
+                command: 'pluginTests.runTestsForCurrentFile',
+                arguments: [document.uri]
+            })
+        ];
+    }
+
+    dispose(): void {
+        for (const disposable of [...this.subscriptions, this.changeEmitter]) {
+            disposable.dispose();
+        }
+    }
+}
@@ -0,0 +1,170 @@
+/**
+ * Bash tracing utilities for debugging BATS tests
+ *
+ * Test bodies are traced by BATS itself (`--trace`), which prints `$ [file:line]`
+ * markers in the test output. Scripts the test calls run in their own bash
+ * process, so they are traced through a BASH_ENV hook that turns on `set -x`
+ * and sends the trace to a log file we collect after the run.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { normalizePath, toHostPath } from './paths';
+
+/** Directory the trace session is mounted at inside the BATS container */
+export const DOCKER_TRACE_DIR = '/plugin-tests-trace';
+
+const TRACE_ENV_FILE = 'trace-env.bash';
+const TRACE_LOG_FILE = 'trace.log';
+
+// Skips the bats executables so only the code under test is traced
+const TRACE_ENV_SCRIPT = `# Generated by the Plugin Tests extension for BATS debug runs
+case "$0" in
+    */bats|*/bats-core/*|*/libexec/bats*) ;;
+    *)
+        exec {PLUGIN_TESTS_TRACE_FD}>>"$PLUGIN_TESTS_TRACE_FILE"
+        BASH_XTRACEFD=$PLUGIN_TESTS_TRACE_FD
+        PS4='+ \${BASH_SOURCE}:\${LINENO}: '
+        set -x
+        ;;
+esac
+`;
+
+export interface TraceSession {
+    /** Host directory holding the BASH_ENV hook and the trace log */
+    dir: string;
+    envFile: string;
+    logFile: string;
+}
+
+export interface TraceLine {
+    text: string;
+    /** Source file as reported by the trace (host, container or relative path, or a basename) */
+    file?: string;
+    /** Zero-based line number */
+    line?: number;
+}
+
+/**
+ * Create a temporary directory with the BASH_ENV hook for a traced run
+ */
+export function createTraceSession(): TraceSession {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-tests-trace-'));
+    const envFile = path.join(dir, TRACE_ENV_FILE);
+    const logFile = path.join(dir, TRACE_LOG_FILE);
+    fs.writeFileSync(envFile, TRACE_ENV_SCRIPT);
+    fs.writeFileSync(logFile, '');
+    return { dir, envFile, logFile };
+}
+
+/**
+ * Empty the trace log so the next test starts with a clean trace
+ */
+export function resetTraceLog(session: TraceSession): void {
+    fs.writeFileSync(session.logFile, '');
+}
+
+/**
+ * Read the script trace collected since the last reset
+ */
+export function readTraceLog(session: TraceSession): string {
+    try {
+        return fs.readFileSync(session.logFile, 'utf8');
+    } catch {
+        return '';
+    }
+}
+
+export function disposeTraceSession(session: TraceSession): void {
+    fs.rmSync(session.dir, { recursive: true, force: true });
+}
+
+/**
+ * Environment variables enabling the hook for a native run
+ */
+export function getTraceEnv(session: TraceSession): Record<string, string> {
+    return {
+        BASH_ENV: session.envFile,
+        PLUGIN_TESTS_TRACE_FILE: session.logFile
+    };
+}
+
+/**
+ * `docker run` arguments mounting the session and enabling the hook in the container
+ */
+export function getDockerTraceArgs(session: TraceSession, dockerMount: string): string[] {
+    return [
+        '-v', `${dockerMount}:${DOCKER_TRACE_DIR}`,
+        '-e', `BASH_ENV=${DOCKER_TRACE_DIR}/${TRACE_ENV_FILE}`,
+        '-e', `PLUGIN_TESTS_TRACE_FILE=${DOCKER_TRACE_DIR}/${TRACE_LOG_FILE}`
+    ];
+}
+
+/**
+ * Parse an xtrace log written with PS4='+ ${BASH_SOURCE}:${LINENO}: '
+ */
+export function parseScriptTrace(log: string): TraceLine[] {
+    const lines: TraceLine[] = [];
+    const traceRegex = /^\++ (.+?):(\d+): /;
+
+    for (const raw of log.split('\n')) {
+        if (!raw.trim()) {
+            continue;
+        }
+        const match = traceRegex.exec(raw);
+        if (match && match[1]) {
+            lines.push({ text: raw, file: match[1], line: parseInt(match[2], 10) - 1 });
+        } else {
+            // Continuation of a multi-line command
+            lines.push({ text: raw });
+        }
+    }
+
+    return lines;
+}
+
+/**
+ * Extract the `--trace` output BATS prints as TAP diagnostics for one test.
+ * Each `$ [file:line]` marker sets the location of the commands that follow it.
+ */
+export function parseBatsTrace(tapOutput: string): TraceLine[] {
+    const lines: TraceLine[] = [];
+    const markerRegex = /^#\s*\$+ \[(.+?):(\d+)\]$/;
+    const commandRegex = /^#\s*\$+ /;
+    let file: string | undefined;
+    let line: number | undefined;
+
+    for (const raw of tapOutput.split('\n')) {
+        const trimmed = raw.trim();
+        const marker = markerRegex.exec(trimmed);
+        if (marker) {
+            file = marker[1];
+            line = parseInt(marker[2], 10) - 1;
+            continue;
+        }
+        if (commandRegex.test(trimmed)) {
+            lines.push({ text: trimmed.replace(/^#\s*/, ''), file, line });
+        }
+    }
+
+    return lines;
+}
+
+/**
+ * Resolve a traced file name to a host path.
+ * Handles container paths under `containerRoot`, paths relative to the
+ * workspace folder, and bare basenames of the test file.
+ */
+export function resolveTracePath(
+    file: string,
+    workspacePath: string,
+    testFilePath: string,
+    containerRoot?: string
+): string | undefined {
+    if (!normalizePath(file).includes('/')) {
+        return file === path.basename(testFilePath) ? testFilePath : undefined;
+    }
+
+    return toHostPath(file, workspacePath, containerRoot);
+}
@@ -0,0 +1,306 @@
+/**
+ * Continuous runs (watch mode)
+ *
+ * While a continuous run is active, saving a test file or a source file it
+ * exercises re-runs the affected tests in the run's scope. Changes are
+ * debounced, and a re-run waits for the previous one to finish.
+ */
+
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+
+interface ContinuousWatch {
+    request: vscode.TestRunRequest;
+    token: vscode.CancellationToken;
+    /** IDs of tests waiting to be re-run */
+    pending: Set<string>;
+    timer?: NodeJS.Timeout;
+    running?: Promise<void>;
+}
+
+export class ContinuousRunner implements vscode.Disposable {
+    private controller: vscode.TestController;
+    private logger: Logger;
+    /** Maps a changed file to the test items it affects */
+    private getAffectedTests: (uri: vscode.Uri) => Promise<vscode.TestItem[]>;
+    private watches = new Set<ContinuousWatch>();
+    /** Source file watchers (one per workspace folder) while any continuous run is active */
+    private sourceWatchers: vscode.Disposable[] = [];
+    private disposables: vscode.Disposable[] = [];
+    /** IDs of tests whose last result was a failure or error */
+    private failed = new Set<string>();
+
+    constructor(
+        controller: vscode.TestController,
+        logger: Logger,
+        getAffectedTests: (uri: vscode.Uri) => Promise<vscode.TestItem[]>
+    ) {
+        this.controller = controller;
+        this.logger = logger;
+        this.getAffectedTests = getAffectedTests;
+
+        const rebuild = () => {
+            if (this.watches.size > 0) {
+                this.updateSourceWatchers(true);
+            }
+        };
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('pluginTests.continuousRun.sources')) {
+                    rebuild();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(rebuild)
+        );
+    }
+
+    /**
+     * Watch for changes on behalf of a continuous run request until it is cancelled
+     */
+    watch(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        if (token.isCancellationRequested) {
+            return Promise.resolve();
+        }
+
+        const watch: ContinuousWatch = { request, token, pending: new Set() };
+        this.watches.add(watch);
+        this.updateSourceWatchers();
+        this.logger.info(`Continuous run started (${request.profile?.label ?? 'unknown profile'})`);
+
+        return new Promise(resolve => {
+            const listener = token.onCancellationRequested(async () => {
+                listener.dispose();
+                clearTimeout(watch.timer);
+                this.watches.delete(watch);
+                this.updateSourceWatchers();
+                await watch.running;
+                this.logger.info('Continuous run stopped');
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Report a changed file. Test files should be re-parsed before calling this.
+     */
+    async fileChanged(uri: vscode.Uri): Promise<void> {
+        if (this.watches.size === 0) {
+            return;
+        }
+
+        const affected = await this.getAffectedTests(uri);
+        for (const watch of this.watches) {
+            const tests = this.getTestsInScope(watch.request, affected);
+            if (tests.length === 0) {
+                continue;
+            }
+            tests.forEach(test => watch.pending.add(test.id));
+            this.schedule(watch);
+        }
+    }
+
+    /**
+     * The tests whose last result was a failure or error
+     */
+    getFailedTests(): vscode.TestItem[] {
+        const roots: vscode.TestItem[] = [];
+        this.controller.items.forEach(item => roots.push(item));
+        return this.findFailed(roots);
+    }
+
+    /**
+     * Whether the last result of an item, or of a test below it, was a failure or error
+     */
+    isFailing(item: vscode.TestItem): boolean {
+        return this.findFailed([item]).length > 0;
+    }
+
+    /**
+     * Record the results reported to a run, so re-runs can be limited to failed tests
+     */
+    track(run: vscode.TestRun): vscode.TestRun {
+        const tracked: vscode.TestRun = Object.create(run);
+        tracked.passed = (test, duration) => {
+            this.failed.delete(test.id);
+            run.passed(test, duration);
+        };
+        tracked.skipped = test => {
+            this.failed.delete(test.id);
+            run.skipped(test);
+        };
+        tracked.failed = (test, message, duration) => {
+            this.failed.add(test.id);
+            run.failed(test, message, duration);
+        };
+        tracked.errored = (test, message, duration) => {
+            this.failed.add(test.id);
+            run.errored(test, message, duration);
+        };
+        return tracked;
+    }
+
+    private schedule(watch: ContinuousWatch): void {
+        const debounce = vscode.workspace.getConfiguration('pluginTests').get<number>('continuousRun.debounce', 500);
+        clearTimeout(watch.timer);
+        watch.timer = setTimeout(() => {
+            watch.timer = undefined;
+            if (watch.running) {
+                // Picked up again when the current run finishes
+                return;
+            }
+            watch.running = this.rerun(watch).finally(() => {
+                watch.running = undefined;
+                if (watch.pending.size > 0 && !watch.token.isCancellationRequested) {
+                    this.schedule(watch);
+                }
+            });
+        }, debounce);
+    }
+
+    private async rerun(watch: ContinuousWatch): Promise<void> {
+        const profile = watch.request.profile;
+        // Test files may have been re-parsed since the change was reported
+        const tests = this.limitToFailed([...watch.pending]
+            .map(id => this.findItem(id))
+            .filter((item): item is vscode.TestItem => item !== undefined));
+        watch.pending.clear();
+        if (!profile || tests.length === 0 || watch.token.isCancellationRequested) {
+            return;
+        }
+
+        const exclude = (watch.request.exclude ?? [])
+            .map(item => this.findItem(item.id))
+            .filter((item): item is vscode.TestItem => item !== undefined);
+
+        this.logger.info(`Continuous run: re-running ${tests.length} test(s)`);
+        try {
+            await profile.runHandler(new vscode.TestRunRequest(tests, exclude, profile), watch.token);
+        } catch (error) {
+            this.logger.error('Continuous run failed', error);
+        }
+    }
+
+    /**
+     * With `continuousRun.onlyFailed`, only re-run the tests that are failing (if any are)
+     */
+    private limitToFailed(tests: vscode.TestItem[]): vscode.TestItem[] {
+        const onlyFailed = vscode.workspace.getConfiguration('pluginTests').get<boolean>('continuousRun.onlyFailed', false);
+        if (!onlyFailed || this.failed.size === 0) {
+            return tests;
+        }
+        return this.findFailed(tests);
+    }
+
+    /**
+     * The failing items among the given items and their descendants, outermost first
+     */
+    private findFailed(tests: vscode.TestItem[]): vscode.TestItem[] {
+        const failing: vscode.TestItem[] = [];
+        const visit = (item: vscode.TestItem) => {
+            if (this.failed.has(item.id)) {
+                failing.push(item);
+            } else {
+                item.children.forEach(visit);
+            }
+        };
+        tests.forEach(visit);
+        return failing;
+    }
+
+    /**
+     * Narrow the affected tests to the request's scope. Items in the request may
+     * be stale (test files are re-parsed on change), so they are matched by ID.
+     */
+    private getTestsInScope(request: vscode.TestRunRequest, affected: vscode.TestItem[]): vscode.TestItem[] {
+        const excluded = new Set((request.exclude ?? []).map(item => item.id));
+        const isExcluded = (item: vscode.TestItem) => getAncestry(item).some(id => excluded.has(id));
+
+        let tests: vscode.TestItem[];
+        if (!request.include) {
+            tests = affected;
+        } else {
+            tests = [];
+            for (const item of affected) {
+                const ancestry = getAncestry(item);
+                for (const included of request.include) {
+                    if (ancestry.includes(included.id)) {
+                        tests.push(item);
+                        break;
+                    }
+                    // A test inside the changed file was selected
+                    const current = findDescendant(item, included.id);
+                    if (current) {
+                        tests.push(current);
+                    }
+                }
+            }
+        }
+
+        return tests.filter(test => !isExcluded(test));
+    }
+
+    private findItem(id: string): vscode.TestItem | undefined {
+        let found: vscode.TestItem | undefined;
+        this.controller.items.forEach(item => {
+            found = found ?? findDescendant(item, id);
+        });
+        return found;
+    }
+
+    /**
+     * Watch each workspace folder's `continuousRun.sources` while continuous runs are active
+     */
+    private updateSourceWatchers(rebuild = false): void {
+        const active = this.watches.size > 0;
+        if (!rebuild && active === this.sourceWatchers.length > 0) {
+            return;
+        }
+
+        this.sourceWatchers.forEach(watcher => watcher.dispose());
+        this.sourceWatchers = [];
+        if (!active) {
+            return;
+        }
+
+        const onSourceChanged = (uri: vscode.Uri) => {
+            this.fileChanged(uri).catch(error => this.logger.error('Failed to find tests affected by a change', error));
+        };
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const pattern = vscode.workspace.getConfiguration('pluginTests', folder.uri).get<string>('continuousRun.sources', '{src,source,scripts}/**');
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, pattern));
+            watcher.onDidCreate(onSourceChanged);
+            watcher.onDidChange(onSourceChanged);
+            watcher.onDidDelete(onSourceChanged);
+            this.sourceWatchers.push(watcher);
+        }
+    }
+
+    dispose(): void {
+        for (const watch of this.watches) {
+            clearTimeout(watch.timer);
+        }
+        this.watches.clear();
+        for (const disposable of [...this.disposables, ...this.sourceWatchers]) {
+            disposable.dispose();
+        }
+    }
+}
+
+function getAncestry(item: vscode.TestItem): string[] {
+    const ids: string[] = [];
+    for (let current: vscode.TestItem | undefined = item; current; current = current.parent) {
+        ids.push(current.id);
+    }
+    return ids;
+}
+
+function findDescendant(item: vscode.TestItem, id: string): vscode.TestItem | undefined {
+    if (item.id === id) {
+        return item;
+    }
+    let found: vscode.TestItem | undefined;
+    item.children.forEach(child => {
+        found = found ?? findDescendant(child, id);
+    });
+    return found;
+}
@@ -0,0 +1,177 @@
+/**
+ * Index of the source files each test file exercises
+ *
+ * Built per workspace folder from the test files a provider discovers and kept
+ * current by its file watchers. Files a test includes (`load`ed helpers,
+ * `require`d bootstraps) are followed, so what they pull in counts too; they
+ * are watched as well, and a change to one re-indexes the tests including it.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from './logger';
+import { getWorkspaceFolder } from './paths';
+import { Dependencies, PathReference, dependsOn } from '../parsers/dependencies';
+
+/** How many levels of included files to follow from a test file */
+const MAX_INCLUDE_DEPTH = 3;
+
+export type DependencyExtractor = (content: string, filePath: string, workspaceRoot: string) => Dependencies;
+
+export class DependencyIndex implements vscode.Disposable {
+    private extract: DependencyExtractor;
+    private logger: Logger;
+    /** Dependencies by workspace folder URI, then test file path */
+    private folders = new Map<string, Map<string, Dependencies>>();
+    /** Files each test file includes, or would include if they existed, by test file path */
+    private includes = new Map<string, Set<string>>();
+    /** Watchers of the included files, by path */
+    private includeWatchers = new Map<string, vscode.Disposable>();
+    private changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(extract: DependencyExtractor, logger: Logger) {
+        this.extract = extract;
+        this.logger = logger;
+    }
+
+    /**
+     * (Re-)index a test file
+     */
+    async update(uri: vscode.Uri): Promise<void> {
+        const folder = getWorkspaceFolder(uri);
+        if (!folder) {
+            return;
+        }
+
+        try {
+            const { dependencies, includes } = await this.collect(uri.fsPath, folder.uri.fsPath);
+            const key = folder.uri.toString();
+            if (!this.folders.has(key)) {
+                this.folders.set(key, new Map());
+            }
+            this.folders.get(key)!.set(uri.fsPath, dependencies);
+            this.includes.set(uri.fsPath, includes);
+            this.updateIncludeWatchers();
+            this.changeEmitter.fire();
+        } catch (error) {
+            this.logger.error(`Failed to index dependencies of ${uri.fsPath}`, error);
+        }
+    }
+
+    remove(uri: vscode.Uri): void {
+        for (const tests of this.folders.values()) {
+            tests.delete(uri.fsPath);
+        }
+        this.includes.delete(uri.fsPath);
+        this.updateIncludeWatchers();
+        this.changeEmitter.fire();
+    }
+
+    clear(): void {
+        this.folders.clear();
+        this.includes.clear();
+        this.updateIncludeWatchers();
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Paths of the test files that exercise a file. Tests in any workspace folder
+     * count, since plugin code and its tests may be checked out side by side.
+     */
+    getTestFiles(filePath: string, declaredClasses: readonly string[] = []): string[] {
+        const testFiles: string[] = [];
+        for (const tests of this.folders.values()) {
+            for (const [testFile, dependencies] of tests) {
+                if (testFile !== filePath && dependsOn(dependencies, filePath, declaredClasses)) {
+                    testFiles.push(testFile);
+                }
+            }
+        }
+        return testFiles;
+    }
+
+    /**
+     * Extract the dependencies of a file and of the files it includes. Also returns
+     * the paths of the included files, including candidates that don't exist yet.
+     */
+    private async collect(filePath: string, workspaceRoot: string): Promise<{ dependencies: Dependencies; includes: Set<string> }> {
+        const paths: PathReference[] = [];
+        const classes = new Set<string>();
+        const visited = new Set<string>();
+        const includes = new Set<string>();
+
+        const visit = async (file: string, depth: number): Promise<void> => {
+            visited.add(file);
+            const dependencies = this.extract(await fs.promises.readFile(file, 'utf8'), file, workspaceRoot);
+            paths.push(...dependencies.paths);
+            dependencies.classes.forEach(name => classes.add(name));
+            if (depth >= MAX_INCLUDE_DEPTH) {
+                return;
+            }
+
+            for (const reference of dependencies.paths.filter(r => r.included)) {
+                const candidates = reference.candidates.filter(candidate => !candidate.split(path.sep).includes('vendor'));
+                candidates.forEach(candidate => includes.add(candidate));
+                const included = candidates.find(candidate => fs.existsSync(candidate));
+                if (included && !visited.has(included)) {
+                    await visit(included, depth + 1);
+                }
+            }
+        };
+
+        await visit(filePath, 0);
+        includes.delete(filePath);
+        return { dependencies: { paths, classes: [...classes] }, includes };
+    }
+
+    /**
+     * Watch exactly the files some test includes
+     */
+    private updateIncludeWatchers(): void {
+        const watched = new Set<string>();
+        for (const includes of this.includes.values()) {
+            includes.forEach(file => watched.add(file));
+        }
+
+        for (const [file, watcher] of this.includeWatchers) {
+            if (!watched.has(file)) {
+                watcher.dispose();
+                this.includeWatchers.delete(file);
+            }
+        }
+        for (const file of watched) {
+            if (this.includeWatchers.has(file)) {
+                continue;
+            }
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(vscode.Uri.file(path.dirname(file)), path.basename(file))
+            );
+            const onChange = () => this.includeChanged(file);
+            watcher.onDidCreate(onChange);
+            watcher.onDidChange(onChange);
+            watcher.onDidDelete(onChange);
+            this.includeWatchers.set(file, watcher);
+        }
+    }
+
+    /**
+     * Re-index the test files that include a changed, created or deleted file
+     */
+    private includeChanged(file: string): void {
+        const testFiles = [...this.includes]
+            .filter(([, includes]) => includes.has(file))
+            .map(([testFile]) => testFile);
+        this.logger.debug(`${path.basename(file)} changed, re-indexing ${testFiles.length} test file(s)`);
+        for (const testFile of testFiles) {
+            this.update(vscode.Uri.file(testFile));
+        }
+    }
+
+    dispose(): void {
+        this.includeWatchers.forEach(watcher => watcher.dispose());
+        this.includeWatchers.clear();
+        this.changeEmitter.dispose();
+    }
+}
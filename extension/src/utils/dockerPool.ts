@@ -0,0 +1,241 @@
+/**
+ * Long-lived Docker containers for test runs
+ *
+ * Starting a container per run costs more than most test files take to run,
+ * so each workspace folder gets one container that stays up between runs.
+ * Tests are executed in it with `docker exec`.
+ */
+
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { execFile, spawn } from 'child_process';
+import { Logger } from './logger';
+import { isDockerAvailable } from './paths';
+
+export interface ContainerSpec {
+    image: string;
+    /** Host directory mounted into the container (Docker mount format) */
+    hostPath: string;
+    /** Where the host directory is mounted and commands run */
+    mountPath: string;
+    /** Additional host directories to mount */
+    extraMounts?: { hostPath: string; mountPath: string }[];
+    /** Additional `docker run` arguments */
+    runArgs?: string[];
+}
+
+/** Label holding the id of the extension host process that started a container */
+const OWNER_LABEL = 'plugin-tests.pid';
+
+interface DockerResult {
+    code: number;
+    stdout: string;
+    stderr: string;
+}
+
+export class DockerContainerPool implements vscode.Disposable {
+    private logger: Logger;
+    private prefix: string;
+    /** Containers started by this pool, by name */
+    private containers = new Map<string, ContainerSpec>();
+    /** Containers being started, so concurrent runs share one start */
+    private starting = new Map<string, Promise<string>>();
+    private available: Promise<boolean> | undefined;
+    private orphansRemoved: Promise<void> | undefined;
+
+    constructor(prefix: string, logger: Logger) {
+        this.prefix = prefix;
+        this.logger = logger;
+    }
+
+    /**
+     * Whether Docker can be used; checked once until the pool is reset
+     */
+    isAvailable(): Promise<boolean> {
+        if (!this.available) {
+            this.available = isDockerAvailable();
+        }
+        return this.available;
+    }
+
+    /**
+     * Get a running container for the spec, starting it if needed. Returns the container name.
+     */
+    acquire(spec: ContainerSpec): Promise<string> {
+        const name = this.getContainerName(spec);
+        const pending = this.starting.get(name);
+        if (pending) {
+            return pending;
+        }
+
+        // Registered before anything is awaited, so concurrent first acquires share the start
+        const start = this.waitForOrphans()
+            .then(() => this.ensureRunning(name, spec))
+            .finally(() => this.starting.delete(name));
+        this.starting.set(name, start);
+        return start;
+    }
+
+    /**
+     * Remove the container for a spec, e.g. after a run was killed and left processes behind
+     */
+    async remove(spec: ContainerSpec): Promise<void> {
+        const name = this.getContainerName(spec);
+        this.containers.delete(name);
+        await this.docker(['rm', '-f', name]);
+        this.logger.info(`Removed container ${name}`);
+    }
+
+    /**
+     * `docker run` arguments for a container the caller starts itself, e.g. because it
+     * needs mounts of its own. It is named and labelled like the pooled containers, so
+     * it can be removed by name and is swept up as an orphan if we die first.
+     */
+    async getOneOffRunArgs(): Promise<{ name: string; args: string[] }> {
+        await this.waitForOrphans();
+
+        const name = `plugin-tests-${this.prefix}-run-${crypto.randomBytes(6).toString('hex')}`;
+        return { name, args: ['--init', '--name', name, '--label', `${OWNER_LABEL}=${process.pid}`] };
+    }
+
+    /**
+     * Remove a container started with getOneOffRunArgs
+     */
+    async removeOneOff(name: string): Promise<void> {
+        await this.docker(['rm', '-f', name]);
+        this.logger.info(`Removed container ${name}`);
+    }
+
+    /**
+     * Remove every container and start fresh ones for those that were running
+     */
+    async restart(): Promise<void> {
+        const specs = [...this.containers.values()];
+        await this.clear();
+        for (const spec of specs) {
+            await this.acquire(spec);
+        }
+    }
+
+    /**
+     * Remove every container and forget the cached Docker availability
+     */
+    async clear(): Promise<void> {
+        const names = [...this.containers.keys()];
+        this.containers.clear();
+        this.available = undefined;
+        if (names.length > 0) {
+            await this.docker(['rm', '-f', ...names]);
+            this.logger.info(`Removed containers ${names.join(', ')}`);
+        }
+    }
+
+    private async ensureRunning(name: string, spec: ContainerSpec): Promise<string> {
+        const inspect = await this.docker(['inspect', '-f', '{{.State.Running}}', name]);
+        if (inspect.code === 0 && inspect.stdout.trim() === 'true') {
+            this.containers.set(name, spec);
+            return name;
+        }
+
+        // A stopped container would block the name
+        await this.docker(['rm', '-f', name]);
+
+        this.logger.info(`Starting container ${name} from ${spec.image}`);
+        const mounts = [spec, ...(spec.extraMounts ?? [])].flatMap(mount => ['-v', `${mount.hostPath}:${mount.mountPath}`]);
+        const run = await this.docker([
+            'run', '-d', '--rm', '--init',
+            '--name', name,
+            '--label', `${OWNER_LABEL}=${process.pid}`,
+            ...mounts,
+            ...(spec.runArgs ?? []),
+            '-w', spec.mountPath,
+            '--entrypoint', 'tail',
+            spec.image,
+            '-f', '/dev/null'
+        ]);
+        if (run.code !== 0) {
+            throw new Error(`Failed to start container from ${spec.image}: ${run.stderr.trim()}`);
+        }
+
+        this.containers.set(name, spec);
+        return name;
+    }
+
+    /**
+     * The orphan sweep, started by whoever needs a container first
+     */
+    private waitForOrphans(): Promise<void> {
+        if (!this.orphansRemoved) {
+            this.orphansRemoved = this.removeOrphans();
+        }
+        return this.orphansRemoved;
+    }
+
+    /**
+     * Remove containers left behind by extension hosts that are no longer running,
+     * e.g. after a crash or a run that hung until VS Code was closed
+     */
+    private async removeOrphans(): Promise<void> {
+        const list = await this.docker([
+            'ps', '-a',
+            '--filter', `label=${OWNER_LABEL}`,
+            '--filter', `name=plugin-tests-${this.prefix}-`,
+            '--format', `{{.Names}} {{.Label "${OWNER_LABEL}"}}`
+        ]);
+        if (list.code !== 0) {
+            return;
+        }
+
+        const orphans = list.stdout.split('\n')
+            .map(line => line.trim().split(/\s+/))
+            .filter(([name, pid]) => name && !this.isProcessRunning(parseInt(pid, 10)))
+            .map(([name]) => name);
+        if (orphans.length > 0) {
+            await this.docker(['rm', '-f', ...orphans]);
+            this.logger.info(`Removed orphaned containers ${orphans.join(', ')}`);
+        }
+    }
+
+    private isProcessRunning(pid: number): boolean {
+        if (!pid || pid === process.pid) {
+            return pid === process.pid;
+        }
+        try {
+            process.kill(pid, 0);
+            return true;
+        } catch (error) {
+            // EPERM: the process exists but belongs to another user
+            return (error as NodeJS.ErrnoException).code === 'EPERM';
+        }
+    }
+
+    /**
+     * Stable per folder and image within a session; the process id keeps two
+     * VS Code windows on the same folder from sharing (and removing) a container
+     */
+    private getContainerName(spec: ContainerSpec): string {
+        const hash = crypto.createHash('sha1')
+            .update(`${process.pid}:${JSON.stringify(spec)}`)
+            .digest('hex')
+            .substring(0, 12);
+        return `plugin-tests-${this.prefix}-${hash}`;
+    }
+
+    private docker(args: string[]): Promise<DockerResult> {
+        return new Promise((resolve) => {
+            execFile('docker', args, (error, stdout, stderr) => {
+                const code = error ? (typeof error.code === 'number' ? error.code : 1) : 0;
+                resolve({ code, stdout, stderr });
+            });
+        });
+    }
+
+    dispose(): void {
+        const names = [...this.containers.keys()];
+        this.containers.clear();
+        if (names.length > 0) {
+            // Nothing can be awaited on shutdown; the daemon removes them after we're gone
+            spawn('docker', ['rm', '-f', ...names], { detached: true, stdio: 'ignore' }).unref();
+        }
+    }
+}
@@ -0,0 +1,64 @@
+/**
+ * Glob matching with the syntax VS Code uses for file patterns:
+ * `*`, `?`, `**`, `{a,b}` and `[abc]`
+ */
+
+const cache = new Map<string, RegExp>();
+
+/**
+ * Convert a glob to an anchored regular expression matching forward-slash paths
+ */
+export function globToRegExp(glob: string): RegExp {
+    const cached = cache.get(glob);
+    if (cached) {
+        return cached;
+    }
+
+    let source = '';
+    let braceDepth = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // `**/` matches any number of directories, including none
+                const slash = glob[i + 2] === '/';
+                source += slash ? '(?:.*/)?' : '.*';
+                i += slash ? 2 : 1;
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                const set = glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                source += `[${set}]`;
+                i = end;
+            }
+        } else if (char === '{') {
+            braceDepth++;
+            source += '(?:';
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+            source += ')';
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    const regex = new RegExp(`^${source}$`);
+    cache.set(glob, regex);
+    return regex;
+}
+
+/**
+ * Whether a path (relative to the folder the glob is for) matches the glob
+ */
+export function matchesGlob(relativePath: string, glob: string): boolean {
+    return globToRegExp(glob).test(relativePath.replace(/\\/g, '/'));
+}
@@ -0,0 +1,83 @@
+/**
+ * Mock call collection for BATS runs
+ *
+ * The BATS mocks log to `/tmp` by default, which is shared between runs and,
+ * with Docker, lives inside the container. Each run instead gets a directory
+ * of its own for the mock log, the mock return values and a record of every
+ * mock call, which we read after the run. The directories live under one
+ * store directory that is mounted into the BATS containers.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/** Directory the store is mounted at inside the BATS containers */
+export const DOCKER_MOCK_DIR = '/plugin-tests-mocks';
+
+const MOCK_LOG_FILE = 'mock.log';
+const MOCK_RETURNS_FILE = 'returns';
+const MOCK_CALLS_FILE = 'calls.log';
+
+export interface MockRun {
+    /** Host directory of the run */
+    dir: string;
+    /** Name of the directory within the store */
+    name: string;
+}
+
+/**
+ * Create the directory that holds the mock files of every run
+ */
+export function createMockStore(): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-tests-mocks-'));
+    // Containers may run the tests as another user
+    fs.chmodSync(dir, 0o755);
+    return dir;
+}
+
+export function createMockRun(store: string): MockRun {
+    const dir = fs.mkdtempSync(path.join(store, 'run-'));
+    fs.chmodSync(dir, 0o777);
+    return { dir, name: path.basename(dir) };
+}
+
+/**
+ * Environment variables pointing the mocks at the run's files. For a run in a
+ * container, `mountPath` is where the store is mounted.
+ */
+export function getMockEnv(run: MockRun, mountPath?: string): Record<string, string> {
+    const dir = mountPath ? `${mountPath}/${run.name}` : run.dir;
+    const join = (file: string) => mountPath ? `${dir}/${file}` : path.join(dir, file);
+    return {
+        MOCK_LOG_FILE: join(MOCK_LOG_FILE),
+        MOCK_RETURNS_FILE: join(MOCK_RETURNS_FILE),
+        PLUGIN_TESTS_MOCK_CALLS_FILE: join(MOCK_CALLS_FILE)
+    };
+}
+
+/**
+ * `-e` arguments for `docker run` or `docker exec` with the store mounted at DOCKER_MOCK_DIR
+ */
+export function getDockerMockEnvArgs(run: MockRun): string[] {
+    return Object.entries(getMockEnv(run, DOCKER_MOCK_DIR)).flatMap(([name, value]) => ['-e', `${name}=${value}`]);
+}
+
+/**
+ * Read the mock calls the run recorded
+ */
+export function readMockCalls(run: MockRun): string {
+    try {
+        return fs.readFileSync(path.join(run.dir, MOCK_CALLS_FILE), 'utf8');
+    } catch {
+        return '';
+    }
+}
+
+export function disposeMockRun(run: MockRun): void {
+    fs.rmSync(run.dir, { recursive: true, force: true });
+}
+
+export function disposeMockStore(store: string): void {
+    fs.rmSync(store, { recursive: true, force: true });
+}
@@ -52,6 +52,53 @@ export function toDockerPath(windowsPath: string): string {
     return dockerPath;
 }
 
+/**
+ * Build PHP debug adapter path mappings for a workspace folder.
+ * Maps the path the code runs from (on the host or inside a container)
+ * to the folder on disk, so breakpoints resolve per workspace folder.
+ */
+export function getDebugPathMappings(workspaceFolder: vscode.WorkspaceFolder, remoteRoot: string): Record<string, string> {
+    return {
+        [normalizePath(remoteRoot)]: workspaceFolder.uri.fsPath
+    };
+}
+
+/**
+ * Map a path reported by a test run back to a host path.
+ * Handles paths inside a container mounted at `containerRoot` and paths
+ * relative to the workspace folder the run was started in.
+ */
+export function toHostPath(reportedPath: string, workspacePath: string, containerRoot?: string): string {
+    const normalized = normalizePath(reportedPath);
+
+    if (containerRoot && (normalized === containerRoot || normalized.startsWith(`${containerRoot}/`))) {
+        return path.join(workspacePath, normalized.substring(containerRoot.length));
+    }
+
+    return path.isAbsolute(reportedPath) ? reportedPath : path.join(workspacePath, reportedPath);
+}
+
+/**
+ * Map a host path to its location in a container that mounts `hostRoot` at `containerRoot`.
+ * Returns undefined for paths outside the mount.
+ */
+export function toContainerPath(hostPath: string, hostRoot: string, containerRoot: string): string | undefined {
+    const relative = path.relative(hostRoot, hostPath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        return undefined;
+    }
+    return path.posix.join(containerRoot, normalizePath(relative));
+}
+
+/**
+ * Rewrite container paths under `containerRoot` in runner output to host paths,
+ * so file links in the output point at the workspace
+ */
+export function mapContainerPaths(text: string, containerRoot: string, hostRoot: string): string {
+    const escaped = containerRoot.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return text.replace(new RegExp(`(^|[\\s'"(=:])${escaped}(?=/)`, 'gm'), (_match, before: string) => `${before}${hostRoot}`);
+}
+
 /**
  * Check if Docker is available on the system
  */
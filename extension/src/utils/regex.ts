@@ -0,0 +1,23 @@
+/**
+ * Regular expression helpers for building test runner filters
+ */
+
+/**
+ * Escape a string so it matches literally inside a regular expression
+ * (valid for both JavaScript and PCRE). `#` and `@` are written as hex
+ * escapes so PHPUnit doesn't mistake them for its data set shorthand.
+ */
+export function escapeRegExp(value: string): string {
+    return value
+        .replace(/[.*+?^${}()|[\]\\-]/g, '\\$&')
+        .replace(/#/g, '\\x23')
+        .replace(/@/g, '\\x40');
+}
+
+/**
+ * Escape a string for a POSIX extended regular expression, as matched by
+ * bash's `=~` (BATS `--filter`)
+ */
+export function escapeExtendedRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
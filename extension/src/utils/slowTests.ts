@@ -0,0 +1,146 @@
+/**
+ * Slow tests and duration regressions
+ *
+ * Works on the durations kept by the test history: a test is slow when its
+ * latest duration reaches `pluginTests.slowTests.threshold`, and it regressed
+ * when that duration is well above the median of its earlier passing runs.
+ */
+
+import * as vscode from 'vscode';
+import { HistoryEntry } from './testHistory';
+
+/** Earlier passing runs needed before a test's duration is compared with them */
+const MIN_BASELINE_RUNS = 3;
+
+export interface SlowTestSettings {
+    /** Milliseconds from which a test is slow */
+    threshold: number;
+    /** How much slower than its baseline (in percent) a test must get to count as regressed */
+    regressionPercent: number;
+    /** Milliseconds a test must at least get slower, so fast tests don't flag on noise */
+    regressionMinimum: number;
+    /** Tests listed in the report */
+    count: number;
+}
+
+export interface DurationTrend {
+    /** Duration of the latest run that reported one */
+    duration: number;
+    /** Median duration of the passing runs before it, when there are enough of them */
+    baseline?: number;
+    slow: boolean;
+    regressed: boolean;
+}
+
+export function getSlowTestSettings(): SlowTestSettings {
+    const config = vscode.workspace.getConfiguration('pluginTests');
+    return {
+        threshold: config.get<number>('slowTests.threshold', 1000),
+        regressionPercent: config.get<number>('slowTests.regressionPercent', 50),
+        regressionMinimum: config.get<number>('slowTests.regressionMinimum', 100),
+        count: Math.max(1, config.get<number>('slowTests.count', 20))
+    };
+}
+
+/**
+ * The latest duration of a test and how it compares to earlier runs; undefined without durations
+ */
+export function getDurationTrend(entries: readonly HistoryEntry[], settings: SlowTestSettings): DurationTrend | undefined {
+    const timed = entries.filter(entry => entry.duration !== undefined);
+    const latest = timed[timed.length - 1];
+    if (!latest) {
+        return undefined;
+    }
+
+    const duration = latest.duration!;
+    const earlier = timed.slice(0, -1).filter(entry => entry.outcome === 'passed').map(entry => entry.duration!);
+    const baseline = earlier.length >= MIN_BASELINE_RUNS ? median(earlier) : undefined;
+    return {
+        duration,
+        baseline,
+        slow: duration >= settings.threshold,
+        regressed: baseline !== undefined
+            && duration - baseline >= settings.regressionMinimum
+            && duration >= baseline * (1 + settings.regressionPercent / 100)
+    };
+}
+
+/**
+ * A duration for display, e.g. `850 ms`, `1.2 s` or `2 min 5 s`
+ */
+export function formatDuration(ms: number): string {
+    if (ms < 1000) {
+        return `${Math.round(ms)} ms`;
+    }
+    if (ms < 60000) {
+        return `${Number((ms / 1000).toFixed(ms < 10000 ? 1 : 0))} s`;
+    }
+    const seconds = Math.round(ms / 1000);
+    return `${Math.floor(seconds / 60)} min ${seconds % 60} s`;
+}
+
+export interface TimedTest {
+    item: vscode.TestItem;
+    trend: DurationTrend;
+}
+
+/**
+ * Markdown report of the slowest tests and of those that got slower
+ */
+export function formatSlowTestsReport(tests: readonly TimedTest[], settings: SlowTestSettings): string {
+    const lines = [
+        '# Slowest Tests',
+        '',
+        `Slow from ${formatDuration(settings.threshold)}. Regressed: ${settings.regressionPercent}% and at least `
+            + `${formatDuration(settings.regressionMinimum)} slower than the median of the earlier passing runs.`
+    ];
+    if (tests.length === 0) {
+        lines.push('', 'No test durations recorded yet. Run some tests with `pluginTests.history.enabled` on.');
+        return lines.join('\n') + '\n';
+    }
+
+    const regressed = tests.filter(test => test.trend.regressed)
+        .sort((a, b) => (b.trend.duration - b.trend.baseline!) - (a.trend.duration - a.trend.baseline!));
+    lines.push('', `## Regressions (${regressed.length})`, '');
+    if (regressed.length === 0) {
+        lines.push('None.');
+    } else {
+        lines.push('| Test | File | Latest | Median before | Change |', '| --- | --- | --- | --- | --- |');
+        for (const { item, trend } of regressed) {
+            const change = Math.round((trend.duration / trend.baseline! - 1) * 100);
+            lines.push(`| ${getTestName(item)} | ${getFileName(item)} | ${formatDuration(trend.duration)} | ${formatDuration(trend.baseline!)} | +${change}% |`);
+        }
+    }
+
+    const slowest = [...tests].sort((a, b) => b.trend.duration - a.trend.duration).slice(0, settings.count);
+    lines.push('', `## Slowest ${slowest.length}`, '', '| Test | File | Latest | Median before |', '| --- | --- | --- | --- |');
+    for (const { item, trend } of slowest) {
+        const duration = trend.slow ? `**${formatDuration(trend.duration)}**` : formatDuration(trend.duration);
+        const baseline = trend.baseline !== undefined ? formatDuration(trend.baseline) : '';
+        lines.push(`| ${getTestName(item)} | ${getFileName(item)} | ${duration} | ${baseline} |`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Label of a test with its class, or its parent test for data sets
+ */
+function getTestName(item: vscode.TestItem): string {
+    const parent = item.parent && item.parent.uri?.fsPath === item.uri?.fsPath && item.parent.range ? item.parent : undefined;
+    return escapeCell(parent ? `${parent.label} › ${item.label}` : item.label);
+}
+
+function getFileName(item: vscode.TestItem): string {
+    return item.uri ? escapeCell(vscode.workspace.asRelativePath(item.uri)) : '';
+}
+
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|');
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
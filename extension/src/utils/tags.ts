@@ -0,0 +1,54 @@
+/**
+ * Test tags and tag-scoped run profiles
+ *
+ * BATS `test_tags`/`file_tags` and PHPUnit groups become VS Code test tags.
+ * The `pluginTests.tagProfiles` setting adds run profiles limited to tests
+ * with (or without) certain tags, which the runners enforce themselves via
+ * `bats --filter-tags` and `phpunit --group`/`--exclude-group`.
+ */
+
+import * as vscode from 'vscode';
+
+export interface TagProfile {
+    name: string;
+    /** Run tests with any of these tags (all tests when empty) */
+    include?: string[];
+    /** Leave out tests with any of these tags */
+    exclude?: string[];
+}
+
+export interface TagFilter {
+    include: string[];
+    exclude: string[];
+}
+
+export function getTagProfiles(): TagProfile[] {
+    return vscode.workspace.getConfiguration('pluginTests').get<TagProfile[]>('tagProfiles', [])
+        .filter(profile => profile.name);
+}
+
+export function toTagFilter(profile: TagProfile): TagFilter {
+    return { include: profile.include ?? [], exclude: profile.exclude ?? [] };
+}
+
+export function matchesTags(tags: readonly vscode.TestTag[], filter: TagFilter): boolean {
+    const ids = tags.map(tag => tag.id);
+    return (filter.include.length === 0 || filter.include.some(tag => ids.includes(tag)))
+        && !filter.exclude.some(tag => ids.includes(tag));
+}
+
+export function toTestTags(names: readonly string[]): vscode.TestTag[] {
+    return [...new Set(names)].map(name => new vscode.TestTag(name));
+}
+
+/**
+ * Parse the tag list of a `# bats test_tags=` or `# bats file_tags=` comment
+ */
+export function parseBatsTagDirective(line: string): { scope: 'test' | 'file'; tags: string[] } | undefined {
+    const match = /^\s*#\s*bats\s+(test|file)_tags\s*=(.*)$/.exec(line);
+    if (!match) {
+        return undefined;
+    }
+    const tags = match[2].split(',').map(tag => tag.trim()).filter(tag => tag);
+    return { scope: match[1] as 'test' | 'file', tags };
+}
@@ -0,0 +1,182 @@
+/**
+ * Test file discovery from include and exclude globs
+ *
+ * Patterns are relative to each workspace folder and can be given as a single
+ * glob or a list (excludes also as a comma-separated string, as they used to
+ * be). Files ignored by Git or hidden by `files.exclude` can be left out too.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { matchesGlob } from './glob';
+import { getWorkspaceFolder } from './paths';
+import { IgnoreRule, parseGitignore, isIgnored } from '../parsers/gitignore';
+
+export interface TestFilePatterns {
+    include: string[];
+    exclude: string[];
+    /** Leave out files ignored by .gitignore */
+    useGitignore: boolean;
+}
+
+export class TestFileFinder implements vscode.Disposable {
+    private section: string;
+    private defaultInclude: string;
+    private defaultExclude: string;
+    /** Parsed .gitignore rules by workspace folder URI */
+    private ignoreRules = new Map<string, Promise<IgnoreRule[]>>();
+    private watcher: vscode.FileSystemWatcher;
+    private changeEmitter = new vscode.EventEmitter<void>();
+    /** Fires when a .gitignore changes in a folder that honors them */
+    readonly onDidChangeIgnoreFiles = this.changeEmitter.event;
+
+    /**
+     * @param section Settings section of the provider (`bats` or `phpunit`)
+     */
+    constructor(section: string, defaultInclude: string, defaultExclude: string) {
+        this.section = section;
+        this.defaultInclude = defaultInclude;
+        this.defaultExclude = defaultExclude;
+
+        this.watcher = vscode.workspace.createFileSystemWatcher('**/.gitignore');
+        const onIgnoreFileChanged = (uri: vscode.Uri) => {
+            const folder = getWorkspaceFolder(uri);
+            if (folder) {
+                this.ignoreRules.delete(folder.uri.toString());
+                if (this.getPatterns(folder).useGitignore) {
+                    this.changeEmitter.fire();
+                }
+            }
+        };
+        this.watcher.onDidCreate(onIgnoreFileChanged);
+        this.watcher.onDidChange(onIgnoreFileChanged);
+        this.watcher.onDidDelete(onIgnoreFileChanged);
+    }
+
+    getPatterns(folder: vscode.WorkspaceFolder): TestFilePatterns {
+        const config = vscode.workspace.getConfiguration('pluginTests', folder.uri);
+        const include = toPatternList(config.get<string | string[]>(`${this.section}.pattern`, this.defaultInclude), false);
+        const exclude = toPatternList(config.get<string | string[]>(`${this.section}.exclude`, this.defaultExclude), true);
+
+        if (config.get<boolean>('useFilesExclude', false)) {
+            const filesExclude = vscode.workspace.getConfiguration('files', folder.uri).get<Record<string, unknown>>('exclude', {});
+            exclude.push(...Object.keys(filesExclude).filter(glob => filesExclude[glob] === true));
+        }
+
+        return { include, exclude, useGitignore: config.get<boolean>('useGitignore', false) };
+    }
+
+    /**
+     * Find the test files of a workspace folder
+     */
+    async findFiles(folder: vscode.WorkspaceFolder): Promise<vscode.Uri[]> {
+        const patterns = this.getPatterns(folder);
+
+        // findFiles takes a single exclude glob; a brace list of them works unless they nest braces
+        const excludeGlob = patterns.exclude.length > 0 && !patterns.exclude.some(glob => /[{}]/.test(glob))
+            ? new vscode.RelativePattern(folder, patterns.exclude.length === 1 ? patterns.exclude[0] : `{${patterns.exclude.join(',')}}`)
+            : null;
+
+        const files = new Map<string, vscode.Uri>();
+        for (const include of patterns.include) {
+            for (const file of await vscode.workspace.findFiles(new vscode.RelativePattern(folder, include), excludeGlob)) {
+                files.set(file.fsPath, file);
+            }
+        }
+
+        const found: vscode.Uri[] = [];
+        for (const file of files.values()) {
+            if (!await this.isExcluded(folder, file, patterns)) {
+                found.push(file);
+            }
+        }
+        return found;
+    }
+
+    /**
+     * Whether a file (e.g. one that was just created) is a test file by the folder's patterns
+     */
+    async isTestFile(uri: vscode.Uri): Promise<boolean> {
+        const folder = getWorkspaceFolder(uri);
+        if (!folder) {
+            return false;
+        }
+        const patterns = this.getPatterns(folder);
+        const relativePath = path.relative(folder.uri.fsPath, uri.fsPath);
+        return patterns.include.some(glob => matchesGlob(relativePath, glob)) && !await this.isExcluded(folder, uri, patterns);
+    }
+
+    /**
+     * Whether a file is left out by the exclude patterns or .gitignore
+     */
+    async isExcluded(folder: vscode.WorkspaceFolder, uri: vscode.Uri, patterns = this.getPatterns(folder)): Promise<boolean> {
+        const relativePath = path.relative(folder.uri.fsPath, uri.fsPath);
+        if (patterns.exclude.some(glob => matchesGlob(relativePath, glob))) {
+            return true;
+        }
+        return patterns.useGitignore && isIgnored(await this.getIgnoreRules(folder), relativePath);
+    }
+
+    private getIgnoreRules(folder: vscode.WorkspaceFolder): Promise<IgnoreRule[]> {
+        const key = folder.uri.toString();
+        if (!this.ignoreRules.has(key)) {
+            this.ignoreRules.set(key, this.loadIgnoreRules(folder));
+        }
+        return this.ignoreRules.get(key)!;
+    }
+
+    /**
+     * Read every .gitignore in the folder (plus `.git/info/exclude`), parents before children
+     */
+    private async loadIgnoreRules(folder: vscode.WorkspaceFolder): Promise<IgnoreRule[]> {
+        const root = folder.uri.fsPath;
+        const files = (await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '**/.gitignore')))
+            .map(file => path.relative(root, path.dirname(file.fsPath)).replace(/\\/g, '/'))
+            .sort((a, b) => (a ? a.split('/').length : 0) - (b ? b.split('/').length : 0));
+
+        const rules: IgnoreRule[] = [];
+        const infoExclude = path.join(root, '.git', 'info', 'exclude');
+        if (fs.existsSync(infoExclude)) {
+            rules.push(...parseGitignore(await fs.promises.readFile(infoExclude, 'utf8')));
+        }
+        for (const directory of files) {
+            const content = await fs.promises.readFile(path.join(root, directory, '.gitignore'), 'utf8');
+            rules.push(...parseGitignore(content, directory));
+        }
+        return rules;
+    }
+
+    dispose(): void {
+        this.watcher.dispose();
+        this.changeEmitter.dispose();
+    }
+}
+
+/**
+ * Settings may hold one glob or a list; excludes may also be a comma-separated string.
+ * Commas inside braces belong to the glob.
+ */
+function toPatternList(value: string | string[], splitCommas: boolean): string[] {
+    const values = Array.isArray(value) ? value : [value];
+    const patterns: string[] = [];
+    for (const entry of values) {
+        if (!splitCommas || Array.isArray(value)) {
+            patterns.push(entry);
+            continue;
+        }
+        let depth = 0;
+        let current = '';
+        for (const char of entry) {
+            depth += char === '{' ? 1 : char === '}' ? -1 : 0;
+            if (char === ',' && depth === 0) {
+                patterns.push(current);
+                current = '';
+            } else {
+                current += char;
+            }
+        }
+        patterns.push(current);
+    }
+    return patterns.map(pattern => pattern.trim()).filter(pattern => pattern);
+}
@@ -0,0 +1,379 @@
+/**
+ * Test history and flaky test detection
+ *
+ * Outcomes and durations of every test a run reports are kept in workspace
+ * storage, each with the revision of the code it ran against: the Git commit
+ * plus uncommitted changes, or the test file's content outside Git. A test
+ * that both passed and failed on the same revision is flaky; it gets a
+ * `flaky` tag and a note in the Test Explorer. Tests also show their latest
+ * duration, with a `slow` tag past the slow test threshold.
+ */
+
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { execFile } from 'child_process';
+import { Logger } from './logger';
+import { getWorkspaceFolder } from './paths';
+import { formatDuration, getDurationTrend, getSlowTestSettings, SlowTestSettings, TimedTest } from './slowTests';
+
+export type HistoryOutcome = 'passed' | 'failed' | 'errored';
+
+export interface HistoryEntry {
+    outcome: HistoryOutcome;
+    /** Milliseconds, when the runner reported one */
+    duration?: number;
+    /** When the result was reported (ms since the epoch) */
+    time: number;
+    /** Code revision the test ran against, if it could be determined */
+    revision?: string;
+}
+
+export const FLAKY_TAG = new vscode.TestTag('flaky');
+export const SLOW_TAG = new vscode.TestTag('slow');
+
+/**
+ * Tags without the ones the history manages, so tag profiles only see BATS tags and
+ * PHPUnit groups. They are told apart from tags of the same name by identity.
+ */
+export function withoutHistoryTags(tags: readonly vscode.TestTag[]): vscode.TestTag[] {
+    return tags.filter(tag => tag !== FLAKY_TAG && tag !== SLOW_TAG);
+}
+
+/** Upper bound for `git diff` output hashed into a revision */
+const MAX_DIFF_BUFFER = 64 * 1024 * 1024;
+
+export class TestHistory implements vscode.Disposable {
+    private context: vscode.ExtensionContext;
+    private controller: vscode.TestController;
+    private logger: Logger;
+    private storageKey: string;
+    /** Entries by test ID, oldest first */
+    private entries: Record<string, HistoryEntry[]>;
+    /** Descriptions the providers gave items, before flaky notes were added */
+    private descriptions = new WeakMap<vscode.TestItem, string | undefined>();
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private configListener: vscode.Disposable;
+    /** Fires when runs added entries */
+    readonly onDidChange = this.changeEmitter.event;
+
+    /**
+     * @param name Storage name of the provider (`bats` or `phpunit`)
+     */
+    constructor(context: vscode.ExtensionContext, controller: vscode.TestController, name: string, logger: Logger) {
+        this.context = context;
+        this.controller = controller;
+        this.logger = logger;
+        this.storageKey = `pluginTests.history.${name}`;
+        this.entries = context.workspaceState.get<Record<string, HistoryEntry[]>>(this.storageKey, {});
+        this.configListener = vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('pluginTests.slowTests')) {
+                this.decorateAll();
+            }
+        });
+    }
+
+    /**
+     * Record the results reported to a run; they are stored when the run ends.
+     * A `variant` (the PHP image of a matrix run) becomes part of the revision, so
+     * results of different variants are never compared for flakiness.
+     */
+    track(run: vscode.TestRun, variant?: string): vscode.TestRun {
+        if (!vscode.workspace.getConfiguration('pluginTests').get<boolean>('history.enabled', true)) {
+            return run;
+        }
+
+        const recorded: Promise<void>[] = [];
+        const items = new Set<vscode.TestItem>();
+        // One revision per workspace folder and run, taken when its first result comes in
+        const revisions = new Map<string, Promise<string | undefined>>();
+        const record = (test: vscode.TestItem, outcome: HistoryOutcome, duration?: number) => {
+            const entry: HistoryEntry = { outcome, duration, time: Date.now() };
+            items.add(test);
+            recorded.push(this.getRevision(test, revisions).then(revision => {
+                entry.revision = revision !== undefined && variant ? `${revision} ${variant}` : revision;
+                this.add(test.id, entry);
+            }));
+        };
+
+        const tracked: vscode.TestRun = Object.create(run);
+        tracked.passed = (test, duration) => {
+            record(test, 'passed', duration);
+            run.passed(test, duration);
+        };
+        tracked.failed = (test, message, duration) => {
+            record(test, 'failed', duration);
+            run.failed(test, message, duration);
+        };
+        tracked.errored = (test, message, duration) => {
+            record(test, 'errored', duration);
+            run.errored(test, message, duration);
+        };
+        tracked.end = () => {
+            run.end();
+            Promise.all(recorded)
+                .then(() => this.save())
+                .then(() => {
+                    this.decorate([...items], false);
+                    this.changeEmitter.fire();
+                })
+                .catch(error => this.logger.error('Failed to store test history', error));
+        };
+        return tracked;
+    }
+
+    /**
+     * History of a test, oldest first
+     */
+    getEntries(id: string): readonly HistoryEntry[] {
+        return this.entries[id] ?? [];
+    }
+
+    /**
+     * IDs of the tests with any history
+     */
+    getTestIds(): string[] {
+        return Object.keys(this.entries);
+    }
+
+    /**
+     * Whether a test both passed and failed on the same code revision
+     */
+    isFlaky(id: string): boolean {
+        const outcomes = new Map<string, Set<boolean>>();
+        for (const entry of this.getEntries(id)) {
+            if (entry.revision === undefined) {
+                continue;
+            }
+            const passed = outcomes.get(entry.revision) ?? new Set<boolean>();
+            passed.add(entry.outcome === 'passed');
+            if (passed.size === 2) {
+                return true;
+            }
+            outcomes.set(entry.revision, passed);
+        }
+        return false;
+    }
+
+    /**
+     * The flaky tests that are currently in the tree
+     */
+    getFlakyTests(): vscode.TestItem[] {
+        return this.getTestIds()
+            .filter(id => this.isFlaky(id))
+            .map(id => this.findItem(id))
+            .filter((item): item is vscode.TestItem => item !== undefined);
+    }
+
+    /**
+     * The tests in the tree with a recorded duration, and how it compares to their earlier runs
+     */
+    getTimedTests(settings: SlowTestSettings = getSlowTestSettings()): TimedTest[] {
+        const tests: TimedTest[] = [];
+        for (const id of this.getTestIds()) {
+            const trend = getDurationTrend(this.getEntries(id), settings);
+            const item = trend ? this.findItem(id) : undefined;
+            // A data provider method's duration is the sum of its data sets, which count on their own
+            if (trend && item && !this.hasTimedChildren(item, settings)) {
+                tests.push({ item, trend });
+            }
+        }
+        return tests;
+    }
+
+    private hasTimedChildren(item: vscode.TestItem, settings: SlowTestSettings): boolean {
+        let timed = false;
+        item.children.forEach(child => {
+            timed = timed || getDurationTrend(this.getEntries(child.id), settings) !== undefined;
+        });
+        return timed;
+    }
+
+    /**
+     * Whether a test item belongs to this history's controller
+     */
+    owns(item: vscode.TestItem): boolean {
+        return this.findItem(item.id) === item;
+    }
+
+    findItem(id: string): vscode.TestItem | undefined {
+        let found: vscode.TestItem | undefined;
+        const visit = (item: vscode.TestItem) => {
+            if (item.id === id) {
+                found = item;
+            } else if (!found) {
+                item.children.forEach(visit);
+            }
+        };
+        this.controller.items.forEach(visit);
+        return found;
+    }
+
+    /**
+     * Show the latest duration of tests, tag slow and flaky ones and note how often
+     * flaky tests failed. Call after (re-)creating items.
+     */
+    decorate(items: readonly vscode.TestItem[], deep = true): void {
+        const settings = getSlowTestSettings();
+        const visit = (item: vscode.TestItem) => {
+            if (!this.descriptions.has(item)) {
+                this.descriptions.set(item, item.description);
+            }
+            const entries = this.getEntries(item.id);
+            const trend = getDurationTrend(entries, settings);
+            const flaky = this.isFlaky(item.id);
+            const notes: (string | undefined)[] = [this.descriptions.get(item)];
+            const tags = withoutHistoryTags(item.tags);
+            const addTag = (tag: vscode.TestTag) => {
+                if (!tags.some(other => other.id === tag.id)) {
+                    tags.push(tag);
+                }
+            };
+
+            if (trend) {
+                notes.push(trend.regressed
+                    ? `${formatDuration(trend.duration)} (up from ${formatDuration(trend.baseline!)})`
+                    : formatDuration(trend.duration));
+                if (trend.slow) {
+                    addTag(SLOW_TAG);
+                }
+            }
+            if (flaky) {
+                const failures = entries.filter(entry => entry.outcome !== 'passed').length;
+                notes.push(`flaky: ${failures} of ${entries.length} runs failed`);
+                addTag(FLAKY_TAG);
+            }
+
+            const description = notes.filter(note => note).join(' · ') || undefined;
+            if (description !== item.description) {
+                item.description = description;
+            }
+            if (tags.length !== item.tags.length || tags.some((tag, i) => tag !== item.tags[i])) {
+                item.tags = tags;
+            }
+
+            if (deep) {
+                item.children.forEach(visit);
+            }
+        };
+        items.forEach(visit);
+    }
+
+    /**
+     * Markdown report of the history of an item's tests: its own history, or that
+     * of each test below it
+     */
+    formatReport(item: vscode.TestItem): string {
+        const tests: vscode.TestItem[] = [];
+        const visit = (test: vscode.TestItem) => {
+            if (this.getEntries(test.id).length > 0) {
+                tests.push(test);
+            }
+            test.children.forEach(visit);
+        };
+        visit(item);
+
+        const lines = [`# Test history: ${item.label}`];
+        if (tests.length === 0) {
+            lines.push('', 'No runs recorded yet.');
+        }
+        for (const test of tests) {
+            const entries = this.getEntries(test.id);
+            const failures = entries.filter(entry => entry.outcome !== 'passed').length;
+            if (test !== item) {
+                lines.push('', `## ${test.label}`);
+            }
+            lines.push(
+                '',
+                `${this.isFlaky(test.id) ? '**Flaky**: ' : ''}${failures} of ${entries.length} runs failed.`,
+                '',
+                '| When | Outcome | Duration | Revision |',
+                '| --- | --- | --- | --- |',
+                ...[...entries].reverse().map(entry => [
+                    new Date(entry.time).toLocaleString(),
+                    entry.outcome,
+                    entry.duration !== undefined ? formatDuration(entry.duration) : '',
+                    entry.revision ?? ''
+                ].join(' | ')).map(row => `| ${row} |`)
+            );
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Forget the history of every test
+     */
+    async clear(): Promise<void> {
+        this.entries = {};
+        await this.save();
+        this.decorateAll();
+        this.changeEmitter.fire();
+    }
+
+    private decorateAll(): void {
+        const roots: vscode.TestItem[] = [];
+        this.controller.items.forEach(item => roots.push(item));
+        this.decorate(roots);
+    }
+
+    private add(id: string, entry: HistoryEntry): void {
+        const size = Math.max(1, vscode.workspace.getConfiguration('pluginTests').get<number>('history.size', 20));
+        this.entries[id] = [...this.getEntries(id), entry].slice(-size);
+    }
+
+    private async save(): Promise<void> {
+        await this.context.workspaceState.update(this.storageKey, this.entries);
+    }
+
+    private getRevision(test: vscode.TestItem, revisions: Map<string, Promise<string | undefined>>): Promise<string | undefined> {
+        const folder = test.uri ? getWorkspaceFolder(test.uri) : undefined;
+        if (!folder) {
+            return Promise.resolve(undefined);
+        }
+
+        const key = folder.uri.toString();
+        if (!revisions.has(key)) {
+            revisions.set(key, getGitRevision(folder.uri.fsPath));
+        }
+        return revisions.get(key)!.then(revision => revision ?? hashFile(test.uri!.fsPath));
+    }
+
+    dispose(): void {
+        this.configListener.dispose();
+        this.changeEmitter.dispose();
+    }
+}
+
+/**
+ * The commit checked out in a folder plus its uncommitted changes (and the names
+ * of untracked files), as a short hash. Undefined outside a Git work tree.
+ */
+async function getGitRevision(folderPath: string): Promise<string | undefined> {
+    const head = await git(folderPath, ['rev-parse', 'HEAD']);
+    if (head === undefined) {
+        return undefined;
+    }
+    const diff = await git(folderPath, ['diff', 'HEAD', '--no-color', '--no-ext-diff']);
+    const untracked = await git(folderPath, ['ls-files', '--others', '--exclude-standard']);
+    return crypto.createHash('sha1')
+        .update(`${head}\0${diff ?? ''}\0${untracked ?? ''}`)
+        .digest('hex')
+        .substring(0, 12);
+}
+
+function git(cwd: string, args: string[]): Promise<string | undefined> {
+    return new Promise(resolve => {
+        execFile('git', args, { cwd, maxBuffer: MAX_DIFF_BUFFER }, (error, stdout) => {
+            resolve(error ? undefined : stdout.trim());
+        });
+    });
+}
+
+async function hashFile(filePath: string): Promise<string | undefined> {
+    try {
+        const content = await fs.promises.readFile(filePath);
+        return crypto.createHash('sha1').update(content).digest('hex').substring(0, 12);
+    } catch {
+        return undefined;
+    }
+}
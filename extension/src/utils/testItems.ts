@@ -0,0 +1,70 @@
+/**
+ * Test item helpers shared by the providers
+ */
+
+import * as vscode from 'vscode';
+import { getWorkspaceFolder } from './paths';
+
+export interface FolderTests {
+    folder: vscode.WorkspaceFolder;
+    tests: vscode.TestItem[];
+}
+
+/**
+ * Resolve a run request to the items to run, honoring `request.exclude`.
+ * Items containing an excluded test are replaced by their remaining children,
+ * and items already covered by a selected ancestor are dropped.
+ */
+export function getRequestedTests(request: vscode.TestRunRequest, roots: readonly vscode.TestItem[]): vscode.TestItem[] {
+    const excluded = request.exclude ?? [];
+    const isExcluded = (item: vscode.TestItem) => excluded.some(ex => isSameOrAncestor(ex, item));
+    const containsExcluded = (item: vscode.TestItem) => excluded.some(ex => isSameOrAncestor(item, ex));
+
+    const selected: vscode.TestItem[] = [];
+    const visit = (item: vscode.TestItem) => {
+        if (isExcluded(item)) {
+            return;
+        }
+        if (!containsExcluded(item)) {
+            selected.push(item);
+            return;
+        }
+        item.children.forEach(visit);
+    };
+    (request.include ?? roots).forEach(visit);
+
+    return selected.filter(item => !selected.some(other => other !== item && isSameOrAncestor(other, item)));
+}
+
+/**
+ * Group tests by workspace folder, so each folder can be run in one process.
+ * Tests outside any workspace folder are returned separately.
+ */
+export function groupByWorkspaceFolder(tests: readonly vscode.TestItem[]): { groups: FolderTests[]; orphans: vscode.TestItem[] } {
+    const groups = new Map<string, FolderTests>();
+    const orphans: vscode.TestItem[] = [];
+
+    for (const test of tests) {
+        const folder = test.uri ? getWorkspaceFolder(test.uri) : undefined;
+        if (!folder) {
+            orphans.push(test);
+            continue;
+        }
+        const key = folder.uri.toString();
+        if (!groups.has(key)) {
+            groups.set(key, { folder, tests: [] });
+        }
+        groups.get(key)!.tests.push(test);
+    }
+
+    return { groups: [...groups.values()], orphans };
+}
+
+function isSameOrAncestor(ancestor: vscode.TestItem, item: vscode.TestItem): boolean {
+    for (let current: vscode.TestItem | undefined = item; current; current = current.parent) {
+        if (current === ancestor) {
+            return true;
+        }
+    }
+    return false;
+}
@@ -0,0 +1,92 @@
+/**
+ * Folder and directory grouping of test files
+ *
+ * Test files are placed under a node for their workspace folder and one node per
+ * directory in between, so large multi-root workspaces stay navigable. Folder and
+ * directory nodes only group; running one runs the files beneath it.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export class TestTree {
+    private controller: vscode.TestController;
+    /** Workspace folder and directory nodes */
+    private containers = new WeakSet<vscode.TestItem>();
+
+    constructor(controller: vscode.TestController) {
+        this.controller = controller;
+    }
+
+    /**
+     * The node of a workspace folder, created on first use
+     */
+    getFolderItem(folder: vscode.WorkspaceFolder): vscode.TestItem {
+        const existing = this.controller.items.get(folder.uri.fsPath);
+        if (existing) {
+            return existing;
+        }
+
+        const folderItem = this.controller.createTestItem(folder.uri.fsPath, folder.name, folder.uri);
+        this.containers.add(folderItem);
+        this.controller.items.add(folderItem);
+        return folderItem;
+    }
+
+    /**
+     * Add a file item under its directory nodes. They start at the workspace folder
+     * node or, if given, at `root` (e.g. a test suite beneath the folder node).
+     */
+    addFile(fileItem: vscode.TestItem, folder: vscode.WorkspaceFolder, root?: vscode.TestItem): void {
+        let parent = root ?? this.getFolderItem(folder);
+        const directory = path.relative(folder.uri.fsPath, path.dirname(fileItem.uri!.fsPath));
+
+        let current = folder.uri.fsPath;
+        for (const segment of directory.split(path.sep).filter(segment => segment && segment !== '.')) {
+            current = path.join(current, segment);
+            const id = `${parent.id}${path.sep}${segment}`;
+            let directoryItem = parent.children.get(id);
+            if (!directoryItem) {
+                directoryItem = this.controller.createTestItem(id, segment, vscode.Uri.file(current));
+                this.containers.add(directoryItem);
+                parent.children.add(directoryItem);
+            }
+            parent = directoryItem;
+        }
+
+        parent.children.add(fileItem);
+    }
+
+    /**
+     * Remove a file item, along with directory and folder nodes left empty
+     */
+    removeFile(fileItem: vscode.TestItem): void {
+        let item: vscode.TestItem | undefined = fileItem;
+        while (item) {
+            const parent: vscode.TestItem | undefined = item.parent;
+            (parent?.children ?? this.controller.items).delete(item.id);
+            item = parent && this.isContainer(parent) && parent.children.size === 0 ? parent : undefined;
+        }
+    }
+
+    isContainer(item: vscode.TestItem): boolean {
+        return this.containers.has(item);
+    }
+
+    /**
+     * Replace folder and directory nodes by the items beneath them, so a run gets
+     * files (or suites) it can hand to the test runner
+     */
+    expand(items: readonly vscode.TestItem[]): vscode.TestItem[] {
+        const expanded: vscode.TestItem[] = [];
+        const visit = (item: vscode.TestItem) => {
+            if (this.isContainer(item)) {
+                item.children.forEach(visit);
+            } else {
+                expanded.push(item);
+            }
+        };
+        items.forEach(visit);
+        return expanded;
+    }
+}
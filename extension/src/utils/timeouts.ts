@@ -0,0 +1,96 @@
+/**
+ * Per-test timeouts and hang detection
+ *
+ * A run executes many tests in one process, so timeouts apply to each test
+ * rather than to the process: a watchdog is re-armed whenever a test finishes
+ * and fires when the current test has been running for longer than allowed.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { matchesGlob } from './glob';
+
+export interface TimeoutOverride {
+    /** Glob matched against the test file path relative to its workspace folder */
+    pattern: string;
+    /** Test name (BATS) or method name (PHPUnit); the whole file when omitted */
+    test?: string;
+    timeout: number;
+}
+
+/** Timeouts declared in the test source (`# plugin-tests: timeout=` comments or `#[Timeout]` attributes) */
+export interface DeclaredTimeouts {
+    file?: number;
+    test?: number;
+}
+
+/**
+ * Resolve the timeout for one test in milliseconds (0 = none). The most specific
+ * wins: the test's own declaration, a test override setting, the file's
+ * declaration, a file override setting, then `pluginTests.timeout`.
+ */
+export function resolveTimeout(
+    workspaceFolder: vscode.WorkspaceFolder,
+    filePath: string,
+    testName: string | undefined,
+    declared: DeclaredTimeouts = {}
+): number {
+    const config = vscode.workspace.getConfiguration('pluginTests', workspaceFolder.uri);
+    const overrides = config.get<TimeoutOverride[]>('timeoutOverrides', []);
+    const relativePath = path.relative(workspaceFolder.uri.fsPath, filePath);
+    const fileOverrides = overrides.filter(override => matchesGlob(relativePath, override.pattern));
+
+    const testOverride = testName !== undefined
+        ? fileOverrides.find(override => override.test === testName)
+        : undefined;
+    const fileOverride = fileOverrides.find(override => override.test === undefined);
+
+    return declared.test
+        ?? testOverride?.timeout
+        ?? declared.file
+        ?? fileOverride?.timeout
+        ?? config.get<number>('timeout', 30000);
+}
+
+/**
+ * Parse a `plugin-tests: timeout=5000` directive (in a comment) into milliseconds
+ */
+export function parseTimeoutDirective(text: string): number | undefined {
+    const match = /plugin-tests:\s*timeout\s*=\s*(\d+)/.exec(text);
+    return match ? parseInt(match[1], 10) : undefined;
+}
+
+export function formatTimeoutMessage(timeout: number): string {
+    return `Timed out after ${timeout} ms`;
+}
+
+/**
+ * Fires when a test runs longer than its timeout. Arm it when a test starts;
+ * arming again (for the next test) restarts the clock.
+ */
+export class TestWatchdog implements vscode.Disposable {
+    private timer: NodeJS.Timeout | undefined;
+    private onTimeout: (timeout: number) => void;
+
+    constructor(onTimeout: (timeout: number) => void) {
+        this.onTimeout = onTimeout;
+    }
+
+    arm(timeout: number): void {
+        this.disarm();
+        if (timeout > 0) {
+            this.timer = setTimeout(() => this.onTimeout(timeout), timeout);
+        }
+    }
+
+    disarm(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    dispose(): void {
+        this.disarm();
+    }
+}
@@ -0,0 +1,107 @@
+/**
+ * Minimal XML reader for the reports and configuration files we consume
+ * (Clover/Cobertura coverage, JUnit logs, phpunit.xml).
+ *
+ * Not a validating parser: it handles elements, attributes, text, CDATA and
+ * the predefined/numeric entities, and skips comments, doctypes and
+ * processing instructions.
+ */
+
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+    lt: '<',
+    gt: '>',
+    amp: '&',
+    quot: '"',
+    apos: '\''
+};
+
+export function decodeEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+        if (entity.startsWith('#x')) {
+            return String.fromCodePoint(parseInt(entity.substring(2), 16));
+        }
+        if (entity.startsWith('#')) {
+            return String.fromCodePoint(parseInt(entity.substring(1), 10));
+        }
+        return ENTITIES[entity] ?? match;
+    });
+}
+
+export function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXml(content: string): XmlElement | undefined {
+    const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+    const stack: XmlElement[] = [root];
+    const tagRegex = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+    const attrRegex = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagRegex.exec(content)) !== null) {
+        const current = stack[stack.length - 1];
+        current.text += decodeEntities(content.substring(lastIndex, match.index));
+        lastIndex = tagRegex.lastIndex;
+
+        if (match[1] !== undefined) {
+            // CDATA section
+            current.text += match[1];
+        } else if (match[2] !== undefined) {
+            // Closing tag
+            if (stack.length > 1 && current.name === match[2]) {
+                stack.pop();
+            }
+        } else if (match[3] !== undefined) {
+            const element: XmlElement = { name: match[3], attributes: {}, children: [], text: '' };
+            let attr: RegExpExecArray | null;
+            attrRegex.lastIndex = 0;
+            while ((attr = attrRegex.exec(match[4])) !== null) {
+                element.attributes[attr[1]] = decodeEntities(attr[2] ?? attr[3] ?? '');
+            }
+            current.children.push(element);
+            if (match[5] !== '/') {
+                stack.push(element);
+            }
+        }
+        // Comments, doctypes and processing instructions are ignored
+    }
+
+    return root.children[0];
+}
+
+/**
+ * Direct children of an element with the given tag name
+ */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter(child => child.name === name);
+}
+
+/**
+ * All descendants of an element with the given tag name, in document order
+ */
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+    const found: XmlElement[] = [];
+    for (const child of element.children) {
+        if (child.name === name) {
+            found.push(child);
+        }
+        found.push(...findElements(child, name));
+    }
+    return found;
+}
@@ -0,0 +1,27 @@
+<?php
+
+/**
+ * Plugin Tests Framework - Timeout Attribute
+ *
+ * Declares how long a test (or every test of a class) may run before the
+ * Plugin Tests VS Code extension stops it and reports it as timed out.
+ * PHPUnit itself ignores the attribute.
+ */
+
+declare(strict_types=1);
+
+namespace PluginTests\Attributes;
+
+use Attribute;
+
+#[Attribute(Attribute::TARGET_CLASS | Attribute::TARGET_METHOD)]
+final class Timeout
+{
+    /**
+     * @param int $milliseconds Maximum run time of the test in milliseconds
+     */
+    public function __construct(
+        public readonly int $milliseconds
+    ) {
+    }
+}
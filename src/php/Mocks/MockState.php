@@ -0,0 +1,44 @@
+<?php
+
+/**
+ * Plugin Tests Framework - Mock State Snapshot
+ *
+ * Captures what the mocked globals, the Docker mocks and the captured logs
+ * look like at a given moment, e.g. when a test fails.
+ */
+
+declare(strict_types=1);
+
+namespace PluginTests\Mocks;
+
+/**
+ * Snapshot of the framework's mock state
+ */
+class MockState
+{
+    /**
+     * Capture the current mock state
+     *
+     * @return array{
+     *     var: array<string, mixed>,
+     *     disks: array<mixed>,
+     *     shares: array<mixed>,
+     *     containers: array<string, array<string, mixed>>,
+     *     updateStatus: array<string, array{local: string|null, remote: string|null}>,
+     *     logs: array<int, array{level: string, message: string}>
+     * }
+     */
+    public static function capture(): array
+    {
+        global $disks, $shares;
+
+        return [
+            'var'          => GlobalsMock::getVar(),
+            'disks'        => is_array($disks) ? $disks : [],
+            'shares'       => is_array($shares) ? $shares : [],
+            'containers'   => DockerUtilMock::getContainers(),
+            'updateStatus' => DockerUtilMock::getAllUpdateStatus(),
+            'logs'         => FunctionMocks::getLogs(),
+        ];
+    }
+}
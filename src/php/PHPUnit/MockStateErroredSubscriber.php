@@ -0,0 +1,27 @@
+<?php
+
+/**
+ * Plugin Tests Framework - Mock State on Error
+ *
+ * Records the mock state when a test ends with an unexpected exception.
+ */
+
+declare(strict_types=1);
+
+namespace PluginTests\PHPUnit;
+
+use PHPUnit\Event\Test\Errored;
+use PHPUnit\Event\Test\ErroredSubscriber;
+
+final class MockStateErroredSubscriber implements ErroredSubscriber
+{
+    public function __construct(
+        private readonly MockStateRecorder $recorder
+    ) {
+    }
+
+    public function notify(Errored $event): void
+    {
+        $this->recorder->record($event->test());
+    }
+}
@@ -0,0 +1,44 @@
+<?php
+
+/**
+ * Plugin Tests Framework - Mock State Extension
+ *
+ * PHPUnit extension recording the mock state ($var, $disks, $shares, Docker
+ * mocks and captured logs) of every failed or errored test. Register it in
+ * phpunit.xml:
+ *
+ *     <extensions>
+ *         <bootstrap class="PluginTests\PHPUnit\MockStateExtension"/>
+ *     </extensions>
+ *
+ * It only records when PLUGIN_TESTS_MOCK_STATE_FILE names the file to write,
+ * which the Plugin Tests VS Code extension sets for its runs.
+ */
+
+declare(strict_types=1);
+
+namespace PluginTests\PHPUnit;
+
+use PHPUnit\Runner\Extension\Extension;
+use PHPUnit\Runner\Extension\Facade;
+use PHPUnit\Runner\Extension\ParameterCollection;
+use PHPUnit\TextUI\Configuration\Configuration;
+
+final class MockStateExtension implements Extension
+{
+    public const FILE_VARIABLE = 'PLUGIN_TESTS_MOCK_STATE_FILE';
+
+    public function bootstrap(Configuration $configuration, Facade $facade, ParameterCollection $parameters): void
+    {
+        $file = getenv(self::FILE_VARIABLE);
+        if ($file === false || $file === '') {
+            return;
+        }
+
+        $recorder = new MockStateRecorder($file);
+        $facade->registerSubscribers(
+            new MockStateFailedSubscriber($recorder),
+            new MockStateErroredSubscriber($recorder)
+        );
+    }
+}
@@ -0,0 +1,28 @@
+<?php
+
+/**
+ * Plugin Tests Framework - Mock State on Failure
+ *
+ * PHPUnit reports a failure before tearDown() resets the mocks, so the
+ * recorded state is the one the assertion saw.
+ */
+
+declare(strict_types=1);
+
+namespace PluginTests\PHPUnit;
+
+use PHPUnit\Event\Test\Failed;
+use PHPUnit\Event\Test\FailedSubscriber;
+
+final class MockStateFailedSubscriber implements FailedSubscriber
+{
+    public function __construct(
+        private readonly MockStateRecorder $recorder
+    ) {
+    }
+
+    public function notify(Failed $event): void
+    {
+        $this->recorder->record($event->test());
+    }
+}
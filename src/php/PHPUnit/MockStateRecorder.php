@@ -0,0 +1,67 @@
+<?php
+
+/**
+ * Plugin Tests Framework - Mock State Recorder
+ *
+ * Appends mock state snapshots of failed tests to a JSON Lines file, which
+ * the Plugin Tests VS Code extension shows next to the failure.
+ */
+
+declare(strict_types=1);
+
+namespace PluginTests\PHPUnit;
+
+use PHPUnit\Event\Code\Test;
+use PHPUnit\Event\Code\TestMethod;
+use PluginTests\Mocks\MockState;
+
+final class MockStateRecorder
+{
+    public function __construct(
+        private readonly string $file
+    ) {
+    }
+
+    /**
+     * Record the current mock state for a test
+     */
+    public function record(Test $test): void
+    {
+        if (! $test instanceof TestMethod) {
+            return;
+        }
+
+        $this->write($test->className(), $test->methodName(), self::dataSetName($test));
+    }
+
+    /**
+     * Append the current mock state for a test method (and data set)
+     */
+    public function write(string $class, string $method, ?string $dataSet = null): void
+    {
+        $entry = [
+            'class'   => $class,
+            'method'  => $method,
+            'dataSet' => $dataSet,
+            'state'   => MockState::capture(),
+        ];
+
+        $json = json_encode($entry, JSON_UNESCAPED_SLASHES | JSON_INVALID_UTF8_SUBSTITUTE | JSON_PARTIAL_OUTPUT_ON_ERROR);
+        if ($json !== false) {
+            file_put_contents($this->file, $json . "\n", FILE_APPEND | LOCK_EX);
+        }
+    }
+
+    /**
+     * The data set as PHPUnit names it in test names: `#0` or `"name"`
+     */
+    private static function dataSetName(TestMethod $test): ?string
+    {
+        if (! $test->testData()->hasDataFromDataProvider()) {
+            return null;
+        }
+
+        $name = $test->testData()->dataFromDataProvider()->dataSetName();
+        return is_int($name) ? '#' . $name : '"' . $name . '"';
+    }
+}
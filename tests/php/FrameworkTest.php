@@ -9,9 +9,12 @@ declare(strict_types=1);
 namespace PluginTests\Tests;
 
 use PluginTests\TestCase;
+use PluginTests\Attributes\Timeout;
 use PluginTests\Mocks\FunctionMocks;
 use PluginTests\Mocks\GlobalsMock;
 use PluginTests\Mocks\DockerUtilMock;
+use PluginTests\Mocks\MockState;
+use PluginTests\PHPUnit\MockStateRecorder;
 
 class FrameworkTest extends TestCase
 {
@@ -389,4 +392,53 @@ class FrameworkTest extends TestCase
         $result = plugin('check', '/var/log/plugins/test.plg');
         $this->assertFalse($result);
     }
+
+    #[Timeout(5000)]
+    public function testTimeoutAttributeCarriesMilliseconds(): void
+    {
+        $attributes = (new \ReflectionMethod($this, __FUNCTION__))->getAttributes(Timeout::class);
+
+        $this->assertCount(1, $attributes);
+        $this->assertSame(5000, $attributes[0]->newInstance()->milliseconds);
+    }
+
+    public function testMockStateCapturesGlobalsDockerMocksAndLogs(): void
+    {
+        $this->mockVar(['customKey' => 'customValue']);
+        $this->mockDisks(['disk1' => ['name' => 'disk1', 'status' => 'DISK_OK']]);
+        $this->mockShares(['appdata' => ['name' => 'appdata']]);
+        $this->mockRunningContainer('plex', 'plexinc/pms-docker');
+        FunctionMocks::addLog('error', 'Something broke');
+
+        $state = MockState::capture();
+
+        $this->assertEquals('customValue', $state['var']['customKey']);
+        $this->assertEquals('TestServer', $state['var']['NAME']);
+        $this->assertArrayHasKey('disk1', $state['disks']);
+        $this->assertArrayHasKey('appdata', $state['shares']);
+        $this->assertEquals('plexinc/pms-docker', $state['containers']['plex']['Image']);
+        $this->assertEquals([['level' => 'error', 'message' => 'Something broke']], $state['logs']);
+    }
+
+    public function testMockStateRecorderAppendsOneJsonLinePerTest(): void
+    {
+        $file = $this->createTempDir() . '/mock-state.jsonl';
+        $recorder = new MockStateRecorder($file);
+
+        $this->mockContainers(['web' => ['Name' => 'web', 'State' => 'exited']]);
+        $recorder->write(self::class, 'testOne');
+        $recorder->write(self::class, 'testTwo', '#1');
+
+        $lines = file($file, FILE_IGNORE_NEW_LINES) ?: [];
+        $this->assertCount(2, $lines);
+
+        $first = json_decode($lines[0], true);
+        $this->assertEquals(self::class, $first['class']);
+        $this->assertEquals('testOne', $first['method']);
+        $this->assertNull($first['dataSet']);
+        $this->assertEquals('exited', $first['state']['containers']['web']['State']);
+
+        $second = json_decode($lines[1], true);
+        $this->assertEquals('#1', $second['dataSet']);
+    }
 }